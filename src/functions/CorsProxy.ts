@@ -1,5 +1,21 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import axios from "axios";
+import { coalesce } from "../shared/coalesce";
+import { withCorsPolicy } from "../shared/corsPolicy";
+import { fetchOEmbed, oEmbedToHtml } from "../shared/oembed";
+import {
+    cacheResponse,
+    CachedResponse,
+    deferRevalidation,
+    freshnessLifetime,
+    getCachedResponse,
+    parseRetryAfter,
+    PROXY_CACHE_ENABLED,
+    proxyCacheKey,
+    refreshCachedResponse
+} from "../shared/proxyCache";
+import { withRateLimit } from "../shared/rateLimit";
+import { blockedUrlResponse, safeGet, UrlPolicyError } from "../shared/urlPolicy";
 
 // Allowed content types for proxying (primarily RSS/Atom feeds and related formats)
 const ALLOWED_CONTENT_TYPES = [
@@ -15,10 +31,9 @@ const ALLOWED_CONTENT_TYPES = [
 const REQUEST_TIMEOUT = 15000; // 15 seconds
 const MAX_RESPONSE_SIZE = 10 * 1024 * 1024; // 10MB limit
 
-function isMediumUrl(url: URL): boolean {
-    const hostname = url.hostname.toLowerCase();
-    return hostname === "medium.com" || hostname.endsWith(".medium.com");
-}
+// Origin statuses that usually mean the site blocks server-side fetches (bot protection,
+// login walls, rate limits), which the oEmbed fallback can work around
+const BLOCKED_STATUSES = [401, 403, 429, 451, 503];
 
 function buildProxyRequestHeaders(request: HttpRequest, targetUrl: URL): Record<string, string> {
     const browserLikeUserAgent = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36";
@@ -34,21 +49,52 @@ function buildProxyRequestHeaders(request: HttpRequest, targetUrl: URL): Record<
     };
 }
 
-async function tryMediumOEmbedFallback(targetUrl: string, context: InvocationContext): Promise<{ title: string; author_name?: string; thumbnail_url?: string; provider_name?: string; provider_url?: string; } | null> {
+/**
+ * Serve a response from the proxy cache. X-Cache tells clients whether it was fresh (HIT),
+ * confirmed by the origin (REVALIDATED) or served past its freshness (STALE).
+ */
+async function cachedProxyResponse(cached: CachedResponse, targetUrl: string, cacheStatus: string): Promise<HttpResponseInit> {
+    const now = Date.now();
+    return {
+        status: cached.status,
+        headers: {
+            "Content-Type": cached.contentType,
+            "Cache-Control": `public, max-age=${Math.max(0, Math.ceil((cached.freshUntil - now) / 1000))}`,
+            "Age": Math.max(0, Math.floor((now - cached.cachedAt) / 1000)).toString(),
+            "X-Cache": cacheStatus,
+            "X-Proxied-URL": targetUrl,
+            "X-Original-Status": cached.status.toString()
+        },
+        body: await cached.read()
+    };
+}
+
+/**
+ * When a site blocks the direct fetch, build a minimal page with Open Graph tags from its
+ * oEmbed provider. Returns null when no provider matches or the lookup fails.
+ */
+async function tryOEmbedFallback(targetUrl: string, originalStatus: number, context: InvocationContext): Promise<HttpResponseInit | null> {
     try {
-        const oEmbedResponse = await axios.get("https://medium.com/oembed", {
-            timeout: REQUEST_TIMEOUT,
-            params: { url: targetUrl },
-            validateStatus: (status) => status >= 200 && status < 300,
-            headers: {
-                "Accept": "application/json",
-                "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36"
-            }
-        });
+        const oEmbed = await fetchOEmbed(targetUrl, {}, context);
+        if (!oEmbed?.data.title) {
+            return null;
+        }
 
-        return oEmbedResponse.data;
+        context.warn(`Origin returned ${originalStatus} for ${targetUrl}, served ${oEmbed.provider.name} oEmbed fallback`);
+        return {
+            status: 200,
+            headers: {
+                "Content-Type": "text/html; charset=utf-8",
+                "Cache-Control": "public, max-age=300",
+                "X-Proxied-URL": targetUrl,
+                "X-Original-Status": originalStatus.toString(),
+                "X-Fallback": "oembed",
+                "X-OEmbed-Provider": oEmbed.provider.name
+            },
+            body: oEmbedToHtml(targetUrl, oEmbed.data)
+        };
     } catch (fallbackError) {
-        context.warn(`Medium oEmbed fallback failed for ${targetUrl}: ${fallbackError}`);
+        context.warn(`oEmbed fallback failed for ${targetUrl}: ${fallbackError}`);
         return null;
     }
 }
@@ -60,26 +106,15 @@ async function tryMediumOEmbedFallback(targetUrl: string, context: InvocationCon
  * 
  * This proxy:
  * - Fetches the requested URL from the server side (bypassing browser CORS restrictions)
- * - Adds appropriate CORS headers to allow browser access
+ * - Adds CORS headers for the origins allowed by the CORS policy
  * - Validates content types to prevent abuse
+ * - Rejects private, loopback and link-local targets (including via redirects)
+ * - Caches responses server-side, revalidating them with the origin's ETag/Last-Modified
+ * - Serves stale responses while the origin rate limits us (429 with Retry-After)
+ * - Falls back to oEmbed metadata when a site with a known provider blocks the fetch
  * - Implements timeouts and size limits for security
  */
 export async function CorsProxy(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
-    const corsHeaders = {
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "GET, HEAD, OPTIONS",
-        "Access-Control-Allow-Headers": "Content-Type, Accept",
-        "Access-Control-Max-Age": "86400" // 24 hours
-    };
-
-    // Handle CORS preflight
-    if (request.method === "OPTIONS") {
-        return {
-            status: 204,
-            headers: corsHeaders
-        };
-    }
-
     // Get the URL to proxy
     const targetUrl = request.query.get("url");
     
@@ -87,7 +122,6 @@ export async function CorsProxy(request: HttpRequest, context: InvocationContext
         return {
             status: 400,
             headers: {
-                ...corsHeaders,
                 "Content-Type": "application/json"
             },
             jsonBody: {
@@ -105,7 +139,6 @@ export async function CorsProxy(request: HttpRequest, context: InvocationContext
         return {
             status: 400,
             headers: {
-                ...corsHeaders,
                 "Content-Type": "application/json"
             },
             jsonBody: {
@@ -120,7 +153,6 @@ export async function CorsProxy(request: HttpRequest, context: InvocationContext
         return {
             status: 400,
             headers: {
-                ...corsHeaders,
                 "Content-Type": "application/json"
             },
             jsonBody: {
@@ -131,53 +163,58 @@ export async function CorsProxy(request: HttpRequest, context: InvocationContext
     }
 
     try {
+        // Accept and Accept-Language are forwarded to the origin, so they are part of the key
+        const cacheKey = PROXY_CACHE_ENABLED
+            ? proxyCacheKey(targetUrl, { "accept": request.headers.get("accept"), "accept-language": request.headers.get("accept-language") })
+            : null;
+        const cached = cacheKey ? await getCachedResponse(cacheKey, context) : null;
+        if (cached && (cached.fresh || cached.retryAfterUntil)) {
+            return await cachedProxyResponse(cached, targetUrl, cached.fresh ? "HIT" : "STALE");
+        }
+
         context.log(`Proxying request to: ${targetUrl}`);
 
-        const response = await axios.get(targetUrl, {
+        const requestHeaders = buildProxyRequestHeaders(request, parsedUrl);
+        if (cached?.validators.etag) requestHeaders["If-None-Match"] = cached.validators.etag;
+        if (cached?.validators.lastModified) requestHeaders["If-Modified-Since"] = cached.validators.lastModified;
+
+        const fetchOrigin = () => safeGet(targetUrl, {
             timeout: REQUEST_TIMEOUT,
             maxContentLength: MAX_RESPONSE_SIZE,
             responseType: "arraybuffer",
-            headers: buildProxyRequestHeaders(request, parsedUrl),
+            headers: requestHeaders,
             // Follow redirects
             maxRedirects: 5,
             validateStatus: (status) => status < 500 // Accept any status below 500
         });
+        // Clients polling the same feed at once share one origin request. Only requests with the
+        // same validators are shared, so a 304 never reaches a caller without that cached copy.
+        const conditional = `${requestHeaders["If-None-Match"] || ""}|${requestHeaders["If-Modified-Since"] || ""}`;
+        const response = cacheKey ? await coalesce(`cors-proxy:${cacheKey}:${conditional}`, fetchOrigin) : await fetchOrigin();
 
-        if (response.status === 403 && isMediumUrl(parsedUrl)) {
-            context.warn(`Medium returned 403 for ${targetUrl}, trying oEmbed fallback`);
-            const oEmbedData = await tryMediumOEmbedFallback(targetUrl, context);
-
-            if (oEmbedData?.title) {
-                const fallbackTitle = oEmbedData.title;
-                const fallbackImage = oEmbedData.thumbnail_url || "";
-                const fallbackSite = oEmbedData.provider_name || "Medium";
-                const escapedTitle = fallbackTitle.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\"/g, "&quot;");
-                const escapedSite = fallbackSite.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\"/g, "&quot;");
-                const escapedUrl = targetUrl.replace(/&/g, "&amp;").replace(/\"/g, "&quot;");
-                const escapedImage = fallbackImage.replace(/&/g, "&amp;").replace(/\"/g, "&quot;");
-
-                const fallbackHtml = [
-                    "<!doctype html>",
-                    "<html><head>",
-                    `<meta property=\"og:title\" content=\"${escapedTitle}\"/>`,
-                    `<meta property=\"og:url\" content=\"${escapedUrl}\"/>`,
-                    `<meta property=\"og:site_name\" content=\"${escapedSite}\"/>`,
-                    fallbackImage ? `<meta property=\"og:image\" content=\"${escapedImage}\"/>` : "",
-                    "</head><body></body></html>"
-                ].join("");
+        if (cached && response.status === 304) {
+            const ttl = freshnessLifetime(response.headers) ?? 0;
+            await refreshCachedResponse(cacheKey, {
+                etag: response.headers["etag"] || cached.validators.etag,
+                lastModified: response.headers["last-modified"] || cached.validators.lastModified
+            }, ttl, context);
+            const now = Date.now();
+            return await cachedProxyResponse({ ...cached, cachedAt: now, freshUntil: now + ttl }, targetUrl, "REVALIDATED");
+        }
 
-                return {
-                    status: 200,
-                    headers: {
-                        ...corsHeaders,
-                        "Content-Type": "text/html; charset=utf-8",
-                        "Cache-Control": "public, max-age=300",
-                        "X-Proxied-URL": targetUrl,
-                        "X-Original-Status": "403",
-                        "X-Fallback": "medium-oembed"
-                    },
-                    body: fallbackHtml
-                };
+        if (cached && response.status === 429) {
+            const retryAfter = parseRetryAfter(response.headers["retry-after"]);
+            if (retryAfter) {
+                await deferRevalidation(cacheKey, retryAfter, context);
+            }
+            context.warn(`Origin rate limited ${targetUrl}, served stale response`);
+            return await cachedProxyResponse(cached, targetUrl, "STALE");
+        }
+
+        if (BLOCKED_STATUSES.includes(response.status)) {
+            const fallback = await tryOEmbedFallback(targetUrl, response.status, context);
+            if (fallback) {
+                return fallback;
             }
         }
 
@@ -195,7 +232,6 @@ export async function CorsProxy(request: HttpRequest, context: InvocationContext
             return {
                 status: 403,
                 headers: {
-                    ...corsHeaders,
                     "Content-Type": "application/json"
                 },
                 jsonBody: {
@@ -206,24 +242,50 @@ export async function CorsProxy(request: HttpRequest, context: InvocationContext
             };
         }
 
+        // Only successful responses are cached, for as long as the origin allows within bounds
+        const body = Buffer.from(response.data);
+        const ttl = freshnessLifetime(response.headers);
+        const cacheable = cacheKey !== null && response.status === 200 && ttl !== null;
+        if (cacheable) {
+            await cacheResponse(cacheKey, {
+                status: response.status,
+                contentType,
+                body,
+                validators: { etag: response.headers["etag"], lastModified: response.headers["last-modified"] },
+                ttlMs: ttl
+            }, context);
+        }
+
         // Return the proxied response with CORS headers
         return {
             status: response.status,
             headers: {
-                ...corsHeaders,
                 "Content-Type": contentType,
-                "Cache-Control": "public, max-age=300", // Cache for 5 minutes
+                "Cache-Control": `public, max-age=${cacheable ? Math.round(ttl / 1000) : 300}`,
+                "X-Cache": cacheable ? "MISS" : "BYPASS",
                 "X-Proxied-URL": targetUrl,
                 "X-Original-Status": response.status.toString()
             },
-            body: Buffer.from(response.data)
+            body
         };
 
     } catch (err) {
+        if (err instanceof UrlPolicyError) {
+            context.warn(`Blocked proxy target ${targetUrl}: ${err.message}`);
+            return blockedUrlResponse(err);
+        }
+
         if (axios.isAxiosError(err)) {
             const status = err.response?.status || 502;
             const message = err.message || "Unknown error";
 
+            if (BLOCKED_STATUSES.includes(err.response?.status)) {
+                const fallback = await tryOEmbedFallback(targetUrl, status, context);
+                if (fallback) {
+                    return fallback;
+                }
+            }
+
             context.error(`Proxy error for ${targetUrl}: ${message}`);
 
             // Handle specific error cases
@@ -231,7 +293,6 @@ export async function CorsProxy(request: HttpRequest, context: InvocationContext
                 return {
                     status: 504,
                     headers: {
-                        ...corsHeaders,
                         "Content-Type": "application/json"
                     },
                     jsonBody: {
@@ -246,7 +307,6 @@ export async function CorsProxy(request: HttpRequest, context: InvocationContext
                 return {
                     status: 502,
                     headers: {
-                        ...corsHeaders,
                         "Content-Type": "application/json"
                     },
                     jsonBody: {
@@ -259,7 +319,6 @@ export async function CorsProxy(request: HttpRequest, context: InvocationContext
             return {
                 status: status >= 400 && status < 600 ? status : 502,
                 headers: {
-                    ...corsHeaders,
                     "Content-Type": "application/json"
                 },
                 jsonBody: {
@@ -275,7 +334,6 @@ export async function CorsProxy(request: HttpRequest, context: InvocationContext
         return {
             status: 500,
             headers: {
-                ...corsHeaders,
                 "Content-Type": "application/json"
             },
             jsonBody: {
@@ -290,5 +348,8 @@ app.http('CorsProxy', {
     methods: ['GET', 'HEAD', 'OPTIONS'],
     authLevel: 'anonymous',
     route: 'cors-proxy',
-    handler: CorsProxy
+    handler: withCorsPolicy(withRateLimit(CorsProxy, { name: "CorsProxy", requests: 120, windowSeconds: 60 }), {
+        methods: ['GET', 'HEAD'],
+        exposedHeaders: ['X-Cache', 'X-Proxied-URL', 'X-Original-Status', 'X-Fallback', 'X-OEmbed-Provider']
+    })
 });
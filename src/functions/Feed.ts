@@ -0,0 +1,72 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { withCorsPolicy } from "../shared/corsPolicy";
+import { fetchFeed, FeedError } from "../shared/jsonFeed";
+import { withRateLimit } from "../shared/rateLimit";
+import { blockedUrlResponse, UrlPolicyError } from "../shared/urlPolicy";
+
+const BROWSER_MAX_AGE = 300; // 5 minutes
+
+/**
+ * Feed function that fetches an RSS 2.0, RSS 1.0 (RDF) or Atom feed server-side and returns
+ * it as a JSON Feed 1.1 document, so clients only have to understand one format.
+ *
+ * Usage: GET /api/feed?url=<encoded-feed-url>
+ *
+ * Dates are ISO-8601, URLs are absolute, enclosures become attachments, and Podcasting 2.0
+ * value, chapters, transcript and guid elements are kept under the _podcast extension.
+ */
+export async function Feed(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const url = request.query.get("url");
+    if (!url) {
+        return {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+            jsonBody: {
+                error: "Missing 'url' query parameter",
+                usage: "GET /api/feed?url=<encoded-feed-url>"
+            }
+        };
+    }
+
+    try {
+        const feed = await fetchFeed(url);
+        return {
+            status: 200,
+            headers: {
+                "Content-Type": "application/feed+json",
+                "Cache-Control": `public, max-age=${BROWSER_MAX_AGE}`
+            },
+            body: JSON.stringify(feed)
+        };
+    } catch (err) {
+        if (err instanceof UrlPolicyError) {
+            context.warn(`Blocked feed target ${url}: ${err.message}`);
+            return blockedUrlResponse(err);
+        }
+
+        if (err instanceof FeedError) {
+            context.warn(`Could not convert feed ${url}: ${err.message}`);
+            return {
+                status: err.status,
+                headers: { "Content-Type": "application/json" },
+                jsonBody: { error: err.message, url }
+            };
+        }
+
+        context.error(`Unexpected error converting feed ${url}: ${err}`);
+        return {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+            jsonBody: { error: "Internal server error", url }
+        };
+    }
+}
+
+app.http('Feed', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'feed',
+    handler: withCorsPolicy(withRateLimit(Feed, { name: "Feed", requests: 60, windowSeconds: 60 }), {
+        methods: ['GET']
+    })
+});
@@ -0,0 +1,181 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import axios from "axios";
+import * as crypto from "crypto";
+import { withCorsPolicy } from "../shared/corsPolicy";
+import { computeBlurhash } from "../shared/imagePlaceholder";
+import { imageSourceErrorResponse, readImageMetadata, streamDownload } from "../shared/imageSource";
+import { isImageMimeType, sniffMimeType, SNIFF_LENGTH } from "../shared/mimeSniff";
+import { withRateLimit } from "../shared/rateLimit";
+import { blockedUrlResponse, UrlPolicyError } from "../shared/urlPolicy";
+
+const TRANSFER_TIMEOUT = parseInt(process.env.FILE_METADATA_TIMEOUT_MS || "30000"); // 30 seconds for the whole transfer
+const MAX_FILE_SIZE = parseInt(process.env.FILE_METADATA_MAX_BYTES || String(100 * 1024 * 1024)); // 100MB
+const MAX_IMAGE_SIZE = 25 * 1024 * 1024; // Images up to 25MB are kept in memory for dimensions and blurhash
+
+interface StreamSummary {
+    sha256: string;
+    size: number;
+    head: Buffer;
+    body: Buffer | null;
+}
+
+/**
+ * Download and hash a file without holding the whole of it in memory. The body is only kept
+ * while it stays under MAX_IMAGE_SIZE, since it's needed for image inspection.
+ */
+async function summarizeDownload(url: string): Promise<StreamSummary & { headers: Record<string, any> }> {
+    const hash = crypto.createHash("sha256");
+    let chunks: Buffer[] | null = [];
+    let head = Buffer.alloc(0);
+    let size = 0;
+
+    const response = await streamDownload(url, chunk => {
+        size += chunk.length;
+        hash.update(chunk);
+        if (head.length < SNIFF_LENGTH) {
+            head = Buffer.concat([head, chunk.subarray(0, SNIFF_LENGTH - head.length)]);
+        }
+        if (chunks && size <= MAX_IMAGE_SIZE) {
+            chunks.push(chunk);
+        } else {
+            chunks = null;
+        }
+    }, { maxBytes: MAX_FILE_SIZE, timeoutMs: TRANSFER_TIMEOUT });
+
+    return {
+        sha256: hash.digest("hex"),
+        size,
+        head,
+        body: chunks ? Buffer.concat(chunks) : null,
+        headers: response.headers
+    };
+}
+
+/**
+ * File metadata function for building NIP-94 events and imeta tags without the client
+ * having to download the file.
+ *
+ * Usage: GET /api/file-metadata?url=<encoded-url>[&x=<expected-sha256>][&blurhash=true]
+ *
+ * Returns the sha256 of the original bytes (x), the sniffed MIME type (m), pixel dimensions
+ * of images (dim), byte size and optionally a blurhash. When an expected sha256 is given,
+ * the response reports whether the served content matches it.
+ */
+export async function FileMetadata(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const url = request.query.get("url");
+    const expected = (request.query.get("x") || request.query.get("sha256"))?.toLowerCase();
+    const includeBlurhash = request.query.get("blurhash") === "true";
+
+    if (!url) {
+        return {
+            status: 400,
+            jsonBody: {
+                error: "Missing 'url' query parameter",
+                usage: "GET /api/file-metadata?url=<encoded-url>[&x=<expected-sha256>][&blurhash=true]"
+            }
+        };
+    }
+
+    if (expected && !/^[0-9a-f]{64}$/.test(expected)) {
+        return {
+            status: 400,
+            jsonBody: { error: "Expected sha256 must be 64 hex characters" }
+        };
+    }
+
+    try {
+        const summary = await summarizeDownload(url);
+
+        const serverType = (summary.headers["content-type"] || "").split(";")[0].trim().toLowerCase() || undefined;
+        const mimeType = sniffMimeType(summary.head) || serverType || "application/octet-stream";
+
+        let dim: string | undefined;
+        let blurhash: string | undefined;
+        // SVGs are never handed to the rasterizer, as with ImageOptimizeProxy sources
+        if (isImageMimeType(mimeType) && mimeType !== "image/svg+xml" && summary.body) {
+            try {
+                const metadata = await readImageMetadata(summary.body, url);
+                // EXIF orientations 5-8 rotate by 90 degrees, so width and height swap
+                const swapped = (metadata.orientation || 1) >= 5;
+                const frameHeight = metadata.pageHeight || metadata.height;
+                if (metadata.width && frameHeight) {
+                    dim = swapped ? `${frameHeight}x${metadata.width}` : `${metadata.width}x${frameHeight}`;
+                }
+                if (includeBlurhash) {
+                    blurhash = await computeBlurhash(summary.body);
+                }
+            } catch (err) {
+                context.warn(`Could not decode image ${url}: ${err}`);
+            }
+        }
+
+        const tags: string[][] = [
+            ["url", url],
+            ["m", mimeType],
+            ["x", summary.sha256],
+            ["size", summary.size.toString()]
+        ];
+        if (dim) tags.push(["dim", dim]);
+        if (blurhash) tags.push(["blurhash", blurhash]);
+
+        return {
+            status: 200,
+            headers: {
+                "Content-Type": "application/json",
+                "Cache-Control": "public, max-age=300" // 5 minutes
+            },
+            jsonBody: {
+                url,
+                m: mimeType,
+                x: summary.sha256,
+                size: summary.size,
+                dim,
+                blurhash,
+                serverContentType: serverType,
+                ...(expected ? { expected, matches: expected === summary.sha256 } : {}),
+                tags,
+                imeta: ["imeta", ...tags.map(([name, value]) => `${name} ${value}`)]
+            }
+        };
+    } catch (err) {
+        if (err instanceof UrlPolicyError) {
+            context.warn(`Blocked file source ${url}: ${err.message}`);
+            return blockedUrlResponse(err);
+        }
+
+        if (axios.isAxiosError(err)) {
+            context.warn(`Failed to fetch ${url}: ${err.message}`);
+            return {
+                status: 502,
+                jsonBody: {
+                    error: "Failed to fetch URL",
+                    url,
+                    message: err.message,
+                    status: err.response?.status
+                }
+            };
+        }
+
+        // Size and transfer time limits
+        const sourceError = imageSourceErrorResponse(err);
+        if (sourceError) {
+            context.warn(`Rejected file source ${url}: ${err.message}`);
+            return sourceError;
+        }
+
+        context.error(`Unexpected error reading metadata for ${url}: ${err}`);
+        return {
+            status: 500,
+            jsonBody: { error: "Internal server error", url }
+        };
+    }
+}
+
+app.http('FileMetadata', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'file-metadata',
+    handler: withCorsPolicy(withRateLimit(FileMetadata, { name: "FileMetadata", requests: 60, windowSeconds: 60 }), {
+        methods: ['GET']
+    })
+});
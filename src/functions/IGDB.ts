@@ -1,5 +1,7 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import axios from "axios";
+import { withCorsPolicy } from "../shared/corsPolicy";
+import { withRateLimit } from "../shared/rateLimit";
 
 // Token cache for IGDB authentication
 interface TokenCache {
@@ -733,7 +735,10 @@ function buildCacheKey(action: string, request: HttpRequest, limit: number): str
 }
 
 app.http('IGDB', {
-    methods: ['GET'],
+    methods: ['GET', 'OPTIONS'],
     authLevel: 'anonymous',
-    handler: IGDB
+    handler: withCorsPolicy(withRateLimit(IGDB, { name: "IGDB", requests: 60, windowSeconds: 60 }), {
+        methods: ['GET'],
+        exposedHeaders: ['X-Cache']
+    })
 });
@@ -0,0 +1,89 @@
+import { app, InvocationContext, Timer } from "@azure/functions";
+import { CacheStorage } from "../shared/cacheStorage";
+import { getImageCacheStorage, getLastAccess } from "../shared/imageCache";
+
+const SWEEP_SCHEDULE = process.env.IMAGE_CACHE_SWEEP_SCHEDULE || "0 0 */6 * * *"; // Every 6 hours
+const MAX_AGE_MS = parseInt(process.env.IMAGE_CACHE_SWEEP_MAX_AGE_MS || String(60 * 86400000)); // 60 days
+const MAX_TOTAL_BYTES = parseInt(process.env.IMAGE_CACHE_MAX_BYTES || String(20 * 1024 * 1024 * 1024)); // 20GB
+
+interface BlobEntry {
+    name: string;
+    size: number;
+    lastAccess: number;
+}
+
+async function deleteBlob(storage: CacheStorage, name: string, context: InvocationContext): Promise<boolean> {
+    try {
+        return await storage.delete(name);
+    } catch (err) {
+        context.warn(`Failed to delete cached blob ${name}: ${err}`);
+        return false;
+    }
+}
+
+/**
+ * Scheduled sweeper for the image-cache container.
+ *
+ * Deletes blobs that haven't been served for longer than IMAGE_CACHE_SWEEP_MAX_AGE_MS, then
+ * evicts the least recently used blobs until the container fits in IMAGE_CACHE_MAX_BYTES.
+ * Last access is recorded in blob metadata when a cached variant is served.
+ */
+export async function ImageCacheSweeper(timer: Timer, context: InvocationContext): Promise<void> {
+    const startedAt = Date.now();
+    const storage = getImageCacheStorage(context);
+
+    const kept: BlobEntry[] = [];
+    let scanned = 0;
+    let expiredCount = 0;
+    let expiredBytes = 0;
+
+    for await (const blob of storage.list()) {
+        scanned++;
+        const entry: BlobEntry = {
+            name: blob.name,
+            size: blob.size,
+            lastAccess: getLastAccess(blob.metadata, blob.lastModified)
+        };
+
+        if (startedAt - entry.lastAccess > MAX_AGE_MS) {
+            if (await deleteBlob(storage, entry.name, context)) {
+                expiredCount++;
+                expiredBytes += entry.size;
+            }
+        } else {
+            kept.push(entry);
+        }
+    }
+
+    // Evict least recently used blobs until the remaining total fits the budget
+    let totalBytes = kept.reduce((sum, entry) => sum + entry.size, 0);
+    let evictedCount = 0;
+    let evictedBytes = 0;
+
+    if (totalBytes > MAX_TOTAL_BYTES) {
+        kept.sort((a, b) => a.lastAccess - b.lastAccess);
+        for (const entry of kept) {
+            if (totalBytes <= MAX_TOTAL_BYTES) {
+                break;
+            }
+            if (await deleteBlob(storage, entry.name, context)) {
+                evictedCount++;
+                evictedBytes += entry.size;
+                totalBytes -= entry.size;
+            }
+        }
+    }
+
+    context.log(
+        `Image cache sweep finished in ${Date.now() - startedAt}ms: scanned ${scanned} blobs, ` +
+        `deleted ${expiredCount} expired (${expiredBytes} bytes), ` +
+        `evicted ${evictedCount} least recently used (${evictedBytes} bytes), ` +
+        `${totalBytes} of ${MAX_TOTAL_BYTES} bytes in use` +
+        (timer.isPastDue ? " (run was past due)" : "")
+    );
+}
+
+app.timer('ImageCacheSweeper', {
+    schedule: SWEEP_SCHEDULE,
+    handler: ImageCacheSweeper
+});
@@ -0,0 +1,168 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { withCorsPolicy } from "../shared/corsPolicy";
+import { withRateLimit } from "../shared/rateLimit";
+import { IMAGE_OPTIMIZE_BUDGET, ImageOptimizeProxy } from "./ImageOptimizeProxy";
+
+const MAX_ENTRIES = parseInt(process.env.IMAGE_WARM_MAX_ENTRIES || "50");
+const CONCURRENCY = parseInt(process.env.IMAGE_WARM_CONCURRENCY || "4");
+const PROXY_PATH = "/api/ImageOptimizeProxy";
+
+// Request headers that identify the client to the rate limiter
+const CLIENT_HEADERS = ["x-forwarded-for", "x-api-key", "origin"];
+
+// Every entry is charged against the caller's ImageOptimizeProxy budget, so warming can't
+// render more than loading the images directly would
+const rateLimitedProxy = withRateLimit(ImageOptimizeProxy, IMAGE_OPTIMIZE_BUDGET);
+
+// Accept header of a typical browser image request, used for format=auto entries
+const DEFAULT_IMAGE_ACCEPT = "image/avif,image/webp,image/apng,image/*,*/*;q=0.8";
+
+type WarmStatus = "cached" | "generated" | "failed";
+
+interface WarmResult {
+    url?: string;
+    sha256?: string;
+    status: WarmStatus;
+    proxyUrl: string;
+    error?: string;
+    httpStatus?: number;
+}
+
+/**
+ * Turn a warm entry into ImageOptimizeProxy query parameters. Every string or number field is
+ * passed through, so entries can use any proxy parameter (including kid, exp and sig).
+ */
+function entryParams(entry: Record<string, unknown>): URLSearchParams {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(entry)) {
+        if (typeof value === "string" || typeof value === "number") {
+            params.set(name, String(value));
+        }
+    }
+    return params;
+}
+
+/**
+ * Warm one entry by sending a HEAD request through the rate-limited ImageOptimizeProxy
+ * handler, which renders and caches the variant on a miss without returning the body
+ */
+async function warmEntry(request: HttpRequest, proxyUrl: string, accept: string, context: InvocationContext): Promise<Omit<WarmResult, "url" | "sha256" | "proxyUrl">> {
+    const headers: Record<string, string> = { accept };
+    for (const name of CLIENT_HEADERS) {
+        const value = request.headers.get(name);
+        if (value) {
+            headers[name] = value;
+        }
+    }
+
+    const response = await rateLimitedProxy(new HttpRequest({
+        method: "HEAD",
+        url: proxyUrl,
+        headers
+    }), context);
+    const responseHeaders = (response.headers || {}) as Record<string, string>;
+
+    if (response.status !== 200 || responseHeaders["X-Fallback"]) {
+        const body = response.jsonBody as { error?: string } | undefined;
+        return {
+            status: "failed",
+            httpStatus: response.status,
+            error: responseHeaders["X-Fallback"] ? "Source failed, fallback image served" : body?.error || String(response.body || "Request failed")
+        };
+    }
+
+    return { status: responseHeaders["X-Cache"] === "MISS" ? "generated" : "cached" };
+}
+
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+/**
+ * Cache warming function for clients that know which images they are about to display.
+ *
+ * Usage: POST /api/image-cache/warm
+ * Body: { "entries": [{ "url": "...", "w": 128, "h": 128, "format": "auto", "quality": 80, "preset": "avatar" }], "accept": "..." }
+ *
+ * Renders and caches every entry through ImageOptimizeProxy with bounded concurrency and
+ * reports per entry whether it was already cached, generated or failed, along with the
+ * proxy URL to load it from.
+ */
+export async function ImageCacheWarm(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    let payload: { entries?: unknown; accept?: unknown };
+    try {
+        payload = await request.json() as typeof payload;
+    } catch {
+        return { status: 400, jsonBody: { error: "Request body must be JSON" } };
+    }
+
+    const entries = payload?.entries;
+    if (!Array.isArray(entries) || entries.some(entry => !entry || typeof entry !== "object")) {
+        return {
+            status: 400,
+            jsonBody: {
+                error: "Body must contain an 'entries' array of objects",
+                usage: "POST /api/image-cache/warm {\"entries\":[{\"url\":\"...\",\"w\":128,\"h\":128,\"format\":\"auto\",\"quality\":80,\"preset\":\"avatar\"}]}"
+            }
+        };
+    }
+
+    if (entries.length > MAX_ENTRIES) {
+        return {
+            status: 413,
+            jsonBody: { error: `Too many entries (${entries.length}), at most ${MAX_ENTRIES} per request`, maxEntries: MAX_ENTRIES }
+        };
+    }
+
+    const accept = typeof payload.accept === "string" ? payload.accept : DEFAULT_IMAGE_ACCEPT;
+    const origin = new URL(request.url).origin;
+
+    const results = await mapWithConcurrency(entries as Record<string, unknown>[], CONCURRENCY, async (entry): Promise<WarmResult> => {
+        const params = entryParams(entry);
+        const proxyUrl = `${origin}${PROXY_PATH}?${params}`;
+        const source = { url: params.get("url") || undefined, sha256: params.get("sha256") || undefined };
+
+        try {
+            return { ...source, proxyUrl, ...await warmEntry(request, proxyUrl, accept, context) };
+        } catch (err) {
+            context.warn(`Failed to warm ${proxyUrl}: ${err}`);
+            return { ...source, proxyUrl, status: "failed", error: "Error processing image" };
+        }
+    });
+
+    const summary: Record<WarmStatus, number> = { cached: 0, generated: 0, failed: 0 };
+    for (const result of results) {
+        summary[result.status]++;
+    }
+    context.log(`Warmed ${results.length} image variants: ${summary.cached} cached, ${summary.generated} generated, ${summary.failed} failed`);
+
+    return {
+        status: 200,
+        headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "no-store"
+        },
+        jsonBody: { results, summary }
+    };
+}
+
+app.http('ImageCacheWarm', {
+    methods: ['POST', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'image-cache/warm',
+    handler: withCorsPolicy(withRateLimit(ImageCacheWarm, { name: "ImageCacheWarm", requests: 10, windowSeconds: 60 }), {
+        methods: ['POST']
+    })
+});
@@ -1,166 +1,793 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
-import { BlobServiceClient, ContainerClient } from "@azure/storage-blob";
-import axios from "axios";
 import * as crypto from "crypto";
 import sharp = require("sharp");
+import { blossomBlobUrl, BlossomResolutionError, fetchVerifiedBlob, getDefaultBlossomServers, isSha256, parseServerList } from "../shared/blossom";
+import { coalesce } from "../shared/coalesce";
+import { withCorsPolicy } from "../shared/corsPolicy";
+import { fallbackSvg, FALLBACK_KINDS } from "../shared/fallbackImage";
+import {
+    acquireRenderLease,
+    BLOB_CACHE_MAX_AGE_MS,
+    BROWSER_CACHE_MAX_AGE,
+    CachedImage,
+    cacheImage,
+    getCachedImage,
+    IMMUTABLE_BLOB_CACHE_MAX_AGE_MS,
+    IMMUTABLE_BROWSER_CACHE_MAX_AGE,
+    matchesETag,
+    computeVariantETag,
+    OriginValidators,
+    touchCachedImage
+} from "../shared/imageCache";
+import { checkImagePayload, fetchImageSource, imageSourceErrorResponse, MAX_INPUT_PIXELS, readImageMetadata, revalidateImageSource } from "../shared/imageSource";
+import { isImageMimeType, sniffMimeType } from "../shared/mimeSniff";
+import { RateLimitBudget, withRateLimit } from "../shared/rateLimit";
+import { blockedUrlResponse, UrlPolicyError } from "../shared/urlPolicy";
+import { signatureErrorResponse, verifySignature } from "../shared/urlSigning";
 
-const CONTAINER_NAME = "image-cache";
-const BROWSER_CACHE_MAX_AGE = 604800; // 7 days in seconds
-const BLOB_CACHE_MAX_AGE_MS = 86400000; // 1 day in milliseconds
+// Shared with ImageCacheWarm, whose entries are rendered through this handler
+export const IMAGE_OPTIMIZE_BUDGET: RateLimitBudget = { name: "ImageOptimizeProxy", requests: 600, windowSeconds: 60 };
 
-let containerClient: ContainerClient | null = null;
-let containerInitialized = false;
+// Output formats that may be requested explicitly
+const OUTPUT_FORMATS = ["avif", "gif", "jpeg", "jpg", "png", "tiff", "webp"];
+// Output formats sharp can encode with multiple frames (its AVIF encoder is single-frame only)
+const ANIMATED_FORMATS = ["webp", "gif"];
+const MAX_ANIMATION_FRAMES = parseInt(process.env.IMAGE_MAX_ANIMATION_FRAMES || "200");
+const MAX_ANIMATION_PIXELS = parseInt(process.env.IMAGE_MAX_ANIMATION_PIXELS || "100000000"); // width * height * frames
 
-async function getContainerClient(context?: InvocationContext): Promise<ContainerClient> {
-    if (containerClient && containerInitialized) {
-        return containerClient;
+// How long to wait for another instance holding the render lease before rendering anyway
+const RENDER_LEASE_WAIT_MS = parseInt(process.env.IMAGE_CACHE_LEASE_WAIT_MS || "10000");
+const RENDER_LEASE_POLL_MS = 500;
+
+// How long a stale response waits for its background revalidation. The host may freeze the
+// instance once the invocation returns, so the refresh is given this much time within it.
+const REVALIDATE_WAIT_MS = parseInt(process.env.IMAGE_REVALIDATE_WAIT_MS || "3000");
+
+const MAX_DIMENSION = 1024;
+const MAX_DPR = 4;
+const FIT_MODES = ["cover", "contain", "inside", "fill"];
+const POSITIONS = [
+    "centre", "center", "north", "northeast", "east", "southeast",
+    "south", "southwest", "west", "northwest", "attention", "entropy"
+];
+// Smart crop strategies that sharp cannot apply to multi-page (animated) images
+const SMART_CROP_POSITIONS = ["attention", "entropy"];
+const MASKS = ["circle"];
+
+// Generated fallback images are short-lived, so the real image shows up once the origin recovers
+const FALLBACK_MAX_AGE = 300;
+const FALLBACK_DEFAULT_SIZE = 128;
+
+/**
+ * Built-in presets, keyed by name. Values are query parameter defaults that explicit
+ * query parameters override. IMAGE_PRESETS (JSON) can add presets or replace these.
+ */
+const BUILT_IN_PRESETS: Record<string, Record<string, string>> = {
+    "avatar": { w: "128", h: "128", fit: "cover", gravity: "attention", quality: "80" },
+    "banner": { w: "1024", h: "341", fit: "cover", gravity: "attention" },
+    "thumbnail": { w: "320", h: "320", fit: "cover" },
+    "note-media": { w: "1024", fit: "inside" }
+};
+
+let presets: Record<string, Record<string, string>> | null = null;
+
+/**
+ * Reads a query parameter, falling back to the selected preset. Query values for any of
+ * the given names take precedence over preset values for any of them.
+ */
+type ParamReader = (...names: string[]) => string | null;
+
+interface TransformOptions {
+    width?: number;
+    height?: number;
+    quality: number;
+    animated: boolean;
+    fit: keyof sharp.FitEnum;
+    position: string;
+    focalX?: number;
+    focalY?: number;
+    background?: string;
+    mask?: string;
+    keepMetadata: boolean;
+}
+
+function generateCacheKey(url: string, format: string, options: TransformOptions): string {
+    const hash = crypto.createHash("sha256");
+    hash.update([
+        url,
+        options.width || "",
+        options.height || "",
+        format,
+        options.quality,
+        options.animated ? "animated" : "still",
+        options.fit,
+        options.position,
+        options.focalX ?? "",
+        options.focalY ?? "",
+        options.background || "",
+        options.mask || "",
+        options.keepMetadata ? "metadata" : "stripped"
+    ].join("|"));
+    return hash.digest("hex");
+}
+
+/**
+ * Get the preset table: built-in presets merged with the IMAGE_PRESETS configuration
+ */
+function getPresets(context?: InvocationContext): Record<string, Record<string, string>> {
+    if (presets) {
+        return presets;
     }
 
-    const connectionString = process.env.AzureWebJobsStorage;
-    if (!connectionString) {
-        context?.error("AzureWebJobsStorage connection string not configured");
-        throw new Error("AzureWebJobsStorage connection string not configured");
+    const merged: Record<string, Record<string, string>> = { ...BUILT_IN_PRESETS };
+    if (process.env.IMAGE_PRESETS) {
+        try {
+            const configured = JSON.parse(process.env.IMAGE_PRESETS);
+            for (const [name, values] of Object.entries<Record<string, any>>(configured)) {
+                merged[name] = Object.fromEntries(Object.entries(values).map(([key, value]) => [key, String(value)]));
+            }
+        } catch (err) {
+            context?.error(`Invalid IMAGE_PRESETS configuration, using built-in presets: ${err}`);
+        }
     }
 
-    try {
-        const blobServiceClient = BlobServiceClient.fromConnectionString(connectionString);
-        const client = blobServiceClient.getContainerClient(CONTAINER_NAME);
-        
-        // Create container if it doesn't exist (private access - no public blob access)
-        await client.createIfNotExists();
-        
-        // Only set the cached client after successful initialization
-        containerClient = client;
-        containerInitialized = true;
-
-        return containerClient;
-    } catch (err) {
-        context?.error(`Failed to create container client: ${err}`);
-        throw err;
+    presets = merged;
+    return presets;
+}
+
+/**
+ * Create a parameter reader for the request and its (optional) preset
+ */
+function createParamReader(request: HttpRequest, preset: Record<string, string> = {}): ParamReader {
+    return (...names: string[]) => {
+        for (const name of names) {
+            const value = request.query.get(name);
+            if (value !== null) {
+                return value;
+            }
+        }
+        for (const name of names) {
+            if (preset[name] !== undefined) {
+                return preset[name];
+            }
+        }
+        return null;
+    };
+}
+
+/**
+ * Parse a focal point coordinate given as a fraction of the image (0-1)
+ */
+function parseFocal(value: string | null): number | undefined {
+    if (value === null) {
+        return undefined;
     }
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : Math.min(Math.max(parsed, 0), 1);
 }
 
-function generateCacheKey(url: string, width?: number, height?: number, format?: string, quality?: number): string {
-    const hash = crypto.createHash("sha256");
-    hash.update(`${url}|${width || ""}|${height || ""}|${format || "webp"}|${quality || 75}`);
-    return hash.digest("hex");
+/**
+ * Parse a background colour given as hex (rgb, rrggbb or rrggbbaa, with or without '#')
+ */
+function parseBackground(value: string | null): string | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const hex = value.replace(/^#/, "").toLowerCase();
+    return /^([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(hex) ? `#${hex}` : undefined;
+}
+
+/**
+ * Read the transform options from the query string. The dpr multiplier is folded into the
+ * width and height so that equivalent requests share a cache entry.
+ */
+function parseTransformOptions(param: ParamReader): TransformOptions | string {
+    const w = param("w");
+    const h = param("h");
+    const dpr = Math.min(Math.max(parseFloat(param("dpr") || "1") || 1, 1), MAX_DPR);
+
+    const fit = (param("fit") || "cover").toLowerCase();
+    if (!FIT_MODES.includes(fit)) {
+        return `Invalid 'fit' value. Allowed: ${FIT_MODES.join(", ")}`;
+    }
+
+    const position = (param("gravity", "position") || "centre").toLowerCase();
+    if (!POSITIONS.includes(position)) {
+        return `Invalid 'gravity' value. Allowed: ${POSITIONS.join(", ")}`;
+    }
+
+    const bg = param("bg");
+    const background = parseBackground(bg);
+    if (bg && !background) {
+        return "Invalid 'bg' value. Use a hex colour such as ffffff or ffffff80";
+    }
+
+    const focalX = parseFocal(param("fx"));
+    const focalY = parseFocal(param("fy"));
+
+    const mask = param("mask")?.toLowerCase() || undefined;
+    if (mask && !MASKS.includes(mask)) {
+        return `Invalid 'mask' value. Allowed: ${MASKS.join(", ")}`;
+    }
+
+    // Scale both dimensions by the same factor when clamping so the aspect ratio is kept
+    const scaledWidth = w ? parseInt(w) * dpr : undefined;
+    const scaledHeight = h ? parseInt(h) * dpr : undefined;
+    const clamp = Math.min(1, MAX_DIMENSION / (scaledWidth || 1), MAX_DIMENSION / (scaledHeight || 1));
+
+    return {
+        width: scaledWidth ? Math.max(Math.round(scaledWidth * clamp), 1) : undefined,
+        height: scaledHeight ? Math.max(Math.round(scaledHeight * clamp), 1) : undefined,
+        quality: parseInt(param("quality") || "75"),
+        animated: param("animated") !== "false",
+        fit: fit as keyof sharp.FitEnum,
+        position: position === "center" ? "centre" : position,
+        focalX: focalX !== undefined || focalY !== undefined ? focalX ?? 0.5 : undefined,
+        focalY: focalX !== undefined || focalY !== undefined ? focalY ?? 0.5 : undefined,
+        background: fit === "contain" ? background : undefined,
+        mask,
+        keepMetadata: param("keepMetadata") === "true"
+    };
 }
 
-async function getCachedImage(cacheKey: string, format: string, context?: InvocationContext): Promise<Buffer | null> {
+/**
+ * Apply the mask, if any. Masks need a known output size, so they only apply when both
+ * dimensions are set and the fit produces exactly that size. The mask is tiled so every
+ * frame of an animation is covered.
+ */
+function applyMask(pipeline: sharp.Sharp, options: TransformOptions): sharp.Sharp {
+    const { width, height, mask } = options;
+    if (mask !== "circle" || !width || !height || options.fit === "inside") {
+        return pipeline;
+    }
+
+    const circle = Buffer.from(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+        `<ellipse cx="${width / 2}" cy="${height / 2}" rx="${width / 2}" ry="${height / 2}"/></svg>`
+    );
+    return pipeline.composite([{ input: circle, blend: "dest-in", tile: true }]);
+}
+
+/**
+ * Apply resizing and cropping. A focal point with cover fit scales the image to cover the
+ * target and extracts the target area centred on the focal point, clamped to the edges.
+ */
+function applyResize(pipeline: sharp.Sharp, metadata: sharp.Metadata, options: TransformOptions, animate: boolean): sharp.Sharp {
+    const { width, height, fit } = options;
+
+    // Focal points refer to the image as displayed, i.e. after the EXIF rotation
+    const swapped = (metadata.orientation || 1) >= 5;
+    const frameWidth = metadata.width || 0;
+    const frameHeight = metadata.pageHeight || metadata.height || 0;
+    const sourceWidth = swapped ? frameHeight : frameWidth;
+    const sourceHeight = swapped ? frameWidth : frameHeight;
+    if (fit === "cover" && width && height && options.focalX !== undefined && sourceWidth && sourceHeight) {
+        const scale = Math.max(width / sourceWidth, height / sourceHeight);
+        const scaledWidth = Math.max(Math.round(sourceWidth * scale), width);
+        const scaledHeight = Math.max(Math.round(sourceHeight * scale), height);
+        const left = Math.round(options.focalX * scaledWidth - width / 2);
+        const top = Math.round(options.focalY * scaledHeight - height / 2);
+
+        return pipeline
+            .resize({ width: scaledWidth, height: scaledHeight, fit: "fill" })
+            .extract({
+                left: Math.min(Math.max(left, 0), scaledWidth - width),
+                top: Math.min(Math.max(top, 0), scaledHeight - height),
+                width,
+                height
+            });
+    }
+
+    const position = animate && SMART_CROP_POSITIONS.includes(options.position) ? "centre" : options.position;
+
+    return pipeline.resize({
+        width,
+        height,
+        fit,
+        position,
+        background: options.background || { r: 255, g: 255, b: 255, alpha: 0 }
+    });
+}
+
+/**
+ * Check whether the Accept header explicitly lists a media type with a non-zero quality.
+ * Wildcards are ignored since browsers send image/* regardless of what they can decode.
+ */
+function acceptsType(accept: string, type: string): boolean {
+    return accept.split(",").some(part => {
+        const [mediaType, ...params] = part.trim().toLowerCase().split(";");
+        if (mediaType.trim() !== type) {
+            return false;
+        }
+        const q = params.map(p => p.trim()).find(p => p.startsWith("q="));
+        return !q || parseFloat(q.substring(2)) > 0;
+    });
+}
+
+/**
+ * Pick the output format for format=auto from the Accept header and the source image.
+ * Animated sources prefer formats that keep the animation.
+ */
+function negotiateFormat(accept: string, hasAlpha: boolean, isAnimated: boolean): string {
+    if (isAnimated) {
+        return acceptsType(accept, "image/webp") ? "webp" : "gif";
+    }
+    if (acceptsType(accept, "image/avif")) {
+        return "avif";
+    }
+    if (acceptsType(accept, "image/webp")) {
+        return "webp";
+    }
+    return hasAlpha ? "png" : "jpeg";
+}
+
+/**
+ * All formats negotiateFormat can pick for this Accept header, most likely first.
+ * Used to look up cached variants before the source has been fetched.
+ */
+function candidateFormats(accept: string, allowAnimation: boolean): string[] {
+    const formats = [
+        negotiateFormat(accept, false, false),
+        negotiateFormat(accept, true, false)
+    ];
+    if (allowAnimation) {
+        formats.push(negotiateFormat(accept, false, true));
+    }
+    return [...new Set(formats)];
+}
+
+/**
+ * Whether the source should be rendered with all of its frames. Animated sources stay
+ * animated when the output format supports it and the animation is within the pixel limit.
+ */
+function shouldAnimate(metadata: sharp.Metadata, format: string, allowAnimation: boolean, context?: InvocationContext): boolean {
+    const frames = metadata.pages || 1;
+    if (!allowAnimation || frames <= 1 || !ANIMATED_FORMATS.includes(format)) {
+        return false;
+    }
+
+    const keptFrames = Math.min(frames, MAX_ANIMATION_FRAMES);
+    const frameHeight = metadata.pageHeight || Math.round((metadata.height || 0) / frames);
+    const totalPixels = (metadata.width || 0) * frameHeight * keptFrames;
+    if (totalPixels > MAX_ANIMATION_PIXELS) {
+        context?.log(`Animation too large (${totalPixels} pixels), serving poster frame`);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Create the sharp pipeline for the source image, decoding either every frame (capped at
+ * MAX_ANIMATION_FRAMES) or only the first frame (the poster frame). The image is rotated
+ * upright according to its EXIF orientation.
+ */
+function createPipeline(source: Buffer, metadata: sharp.Metadata, animate: boolean, context?: InvocationContext): sharp.Sharp {
+    if (!animate) {
+        return sharp(source, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+    }
+
+    const frames = metadata.pages || 1;
+    const keptFrames = Math.min(frames, MAX_ANIMATION_FRAMES);
+    if (keptFrames < frames) {
+        context?.log(`Animation truncated from ${frames} to ${keptFrames} frames`);
+    }
+
+    return sharp(source, { pages: keptFrames, limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+}
+
+function blossomErrorResponse(err: BlossomResolutionError): HttpResponseInit {
+    return {
+        status: 502,
+        jsonBody: {
+            error: err.message,
+            sha256: err.sha256,
+            attempts: err.attempts
+        }
+    };
+}
+
+/**
+ * Build the response for an image body. Conditional requests that match the ETag get a 304
+ * and HEAD requests get headers only; in both cases the body is never read.
+ */
+async function imageResponse(
+    request: HttpRequest,
+    headers: Record<string, string>,
+    etag: string,
+    lastModified: Date,
+    size: number,
+    read: () => Promise<Buffer>
+): Promise<HttpResponseInit> {
+    const conditionalHeaders = {
+        ...headers,
+        "ETag": etag,
+        "Last-Modified": lastModified.toUTCString()
+    };
+
+    if (matchesETag(request.headers.get("if-none-match"), etag)) {
+        return { status: 304, headers: conditionalHeaders };
+    }
+
+    if (request.method === "HEAD") {
+        return {
+            status: 200,
+            headers: { ...conditionalHeaders, "Content-Length": size.toString() }
+        };
+    }
+
+    return { status: 200, headers: conditionalHeaders, body: await read() };
+}
+
+/**
+ * Serve the original, hash-verified bytes of a Blossom blob. Only images are passed through.
+ */
+async function rawPassthrough(request: HttpRequest, sha256: string, candidates: string[], cacheControl: string, context: InvocationContext): Promise<HttpResponseInit> {
+    // The content is addressed by its hash, which makes the hash itself a strong ETag
+    const etag = `"${sha256}"`;
+
     try {
-        const container = await getContainerClient(context);
-        const blobName = `${cacheKey}.${format}`;
-        const blobClient = container.getBlobClient(blobName);
-        
-        // Check if blob exists and get properties to check age
-        const properties = await blobClient.getProperties().catch(() => null);
-        if (!properties) {
-            return null;
-        }
-
-        // Check if cached image is older than 1 day
-        const lastModified = properties.lastModified;
-        if (lastModified && (Date.now() - lastModified.getTime()) > BLOB_CACHE_MAX_AGE_MS) {
-            // Cache expired, delete old blob and return null
-            await blobClient.deleteIfExists();
-            return null;
-        }
-
-        const downloadResponse = await blobClient.download();
-        const chunks: Buffer[] = [];
-        
-        for await (const chunk of downloadResponse.readableStreamBody as NodeJS.ReadableStream) {
-            chunks.push(Buffer.from(chunk));
-        }
-        
-        return Buffer.concat(chunks);
+        const cached = await getCachedImage(sha256, "raw", context, IMMUTABLE_BLOB_CACHE_MAX_AGE_MS);
+        if (cached) {
+            if (cached.stale) {
+                // Verified content can't change, so a stale entry only needs its timestamp refreshed
+                await touchCachedImage(sha256, "raw", {}, context);
+            }
+
+            return imageResponse(request, {
+                "Content-Type": cached.contentType || "application/octet-stream",
+                "X-Metadata-Stripped": "false",
+                "Cache-Control": cacheControl,
+                "X-Cache": "HIT"
+            }, etag, cached.lastModified, cached.size, cached.read);
+        }
+
+        const { buffer } = await fetchVerifiedBlob(sha256, candidates, context);
+
+        const mimeType = sniffMimeType(buffer);
+        if (!isImageMimeType(mimeType)) {
+            return {
+                status: 415,
+                jsonBody: { error: "Blob is not an image", sha256, contentType: mimeType }
+            };
+        }
+
+        await cacheImage(sha256, "raw", buffer, context, { contentType: mimeType });
+
+        return imageResponse(request, {
+            "Content-Type": mimeType,
+            "X-Metadata-Stripped": "false",
+            "Cache-Control": cacheControl,
+            "X-Cache": "MISS"
+        }, etag, new Date(), buffer.length, async () => buffer);
     } catch (err) {
-        context?.error(`Failed to get cached image: ${err}`);
-        return null;
+        if (err instanceof UrlPolicyError) {
+            context.warn(`Blocked image source ${err.url}: ${err.message}`);
+            return blockedUrlResponse(err);
+        }
+        if (err instanceof BlossomResolutionError) {
+            return blossomErrorResponse(err);
+        }
+        context.error(`Failed to serve blob ${sha256}: ${err}`);
+        return { status: 500, jsonBody: { error: "Error fetching blob", sha256 } };
     }
 }
 
-async function cacheImage(cacheKey: string, format: string, buffer: Buffer, context?: InvocationContext): Promise<void> {
+/**
+ * Strip EXIF, XMP and IPTC metadata, which can carry GPS coordinates and camera serials,
+ * and convert colours to sRGB through the embedded ICC profile. keepMetadata keeps all
+ * metadata and the original profile instead.
+ */
+function applyMetadataPolicy(pipeline: sharp.Sharp, options: TransformOptions): sharp.Sharp {
+    return options.keepMetadata ? pipeline.keepMetadata() : pipeline.toColourspace("srgb");
+}
+
+/**
+ * Render a variant of the source image in the given output format
+ */
+async function renderVariant(source: Buffer, metadata: sharp.Metadata, format: string, options: TransformOptions, context?: InvocationContext): Promise<Buffer> {
+    const animate = shouldAnimate(metadata, format, options.animated, context);
+    const pipeline = applyMetadataPolicy(applyMask(applyResize(createPipeline(source, metadata, animate, context), metadata, options, animate), options), options);
+    return pipeline
+        .toFormat(format as keyof sharp.FormatEnum, { quality: options.quality })
+        .toBuffer();
+}
+
+/**
+ * Render a generated placeholder in place of an image whose source failed. It takes the
+ * requested size (square when only one dimension is given), format and mask, and is not cached.
+ */
+async function fallbackResponse(kind: string, seed: string, format: string, options: TransformOptions, headers: Record<string, string>): Promise<HttpResponseInit> {
+    const width = options.width || options.height || FALLBACK_DEFAULT_SIZE;
+    const height = options.height || width;
+    const pipeline = applyMask(sharp(fallbackSvg(kind, seed, width, height)), { ...options, width, height });
+    const body = await pipeline
+        .toFormat(format as keyof sharp.FormatEnum, { quality: options.quality })
+        .toBuffer();
+
+    return {
+        status: 200,
+        headers: {
+            ...headers,
+            "Content-Type": `image/${format}`,
+            "Cache-Control": `public, max-age=${FALLBACK_MAX_AGE}`,
+            "X-Fallback": kind
+        },
+        body
+    };
+}
+
+// Cache keys with a background revalidation in progress on this instance
+const revalidating = new Set<string>();
+
+/**
+ * Revalidate a stale variant against its origin with a conditional request. A 304 only
+ * refreshes the cache timestamp; changed content is re-encoded and replaces the variant.
+ */
+async function revalidateVariant(url: string, cacheKey: string, format: string, options: TransformOptions, validators: OriginValidators, context: InvocationContext): Promise<void> {
+    if (revalidating.has(cacheKey)) {
+        return;
+    }
+    revalidating.add(cacheKey);
+
     try {
-        const container = await getContainerClient(context);
-        const blobName = `${cacheKey}.${format}`;
-        const blockBlobClient = container.getBlockBlobClient(blobName);
-        
-        await blockBlobClient.upload(buffer, buffer.length, {
-            blobHTTPHeaders: {
-                blobContentType: `image/${format}`,
-                blobCacheControl: `public, max-age=${BROWSER_CACHE_MAX_AGE}`
-            }
-        });
+        const source = await revalidateImageSource(url, validators);
+        if (!source) {
+            await touchCachedImage(cacheKey, format, validators, context);
+            return;
+        }
+
+        const metadata = await readImageMetadata(source.buffer, url);
+        const buffer = await renderVariant(source.buffer, metadata, format, options, context);
+        await cacheImage(cacheKey, format, buffer, context, { validators: source.validators });
     } catch (err) {
-        context?.error(`Failed to cache image: ${err}`);
+        context.warn(`Background revalidation of ${url} failed: ${err}`);
+    } finally {
+        revalidating.delete(cacheKey);
     }
 }
 
+/**
+ * Wait for a promise for at most timeoutMs. The promise itself keeps running afterwards.
+ */
+async function waitAtMost(promise: Promise<void>, timeoutMs: number): Promise<void> {
+    let timer: NodeJS.Timeout;
+    await Promise.race([promise, new Promise<void>(resolve => { timer = setTimeout(resolve, timeoutMs); })]);
+    clearTimeout(timer);
+}
+
+interface CachedVariant {
+    format: string;
+    cacheKey: string;
+    cached: CachedImage;
+}
+
+interface RenderedVariant {
+    format: string;
+    cacheKey: string;
+    buffer: Buffer;
+}
+
+/**
+ * Look up a cached variant in each format the request could be served in, in order
+ */
+async function findCachedVariant(sourceKey: string, formats: string[], options: TransformOptions, maxAgeMs: number, context: InvocationContext): Promise<CachedVariant | null> {
+    for (const format of formats) {
+        const cacheKey = generateCacheKey(sourceKey, format, options);
+        const cached = await getCachedImage(cacheKey, format, context, maxAgeMs);
+        if (cached) {
+            return { format, cacheKey, cached };
+        }
+    }
+    return null;
+}
+
+/**
+ * Poll the cache while another instance holds the render lease. Returns null if the variant
+ * did not show up within RENDER_LEASE_WAIT_MS.
+ */
+async function waitForCachedVariant(sourceKey: string, formats: string[], options: TransformOptions, maxAgeMs: number, context: InvocationContext): Promise<RenderedVariant | null> {
+    const deadline = Date.now() + RENDER_LEASE_WAIT_MS;
+    while (Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, RENDER_LEASE_POLL_MS));
+        const found = await findCachedVariant(sourceKey, formats, options, maxAgeMs, context);
+        if (found) {
+            return { format: found.format, cacheKey: found.cacheKey, buffer: await found.cached.read() };
+        }
+    }
+    return null;
+}
+
 export async function ImageOptimizeProxy(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
     context.log(`Http function processed request for url "${request.url}"`);
+
+    const signatureError = verifySignature(request);
+    if (signatureError) {
+        context.warn(`Rejected request: ${signatureError}`);
+        return signatureErrorResponse(signatureError);
+    }
+
     const url = request.query.get("url");
-    const w = request.query.get("w");
-    const h = request.query.get("h");
-    const format = request.query.get("format") || "webp";
-    const quality = parseInt(request.query.get("quality") || "75");
+    const sha256 = request.query.get("sha256")?.toLowerCase();
+    const raw = request.query.get("raw") === "true";
+
+    if (!url && !sha256) {
+        return { status: 400, body: "Missing 'url' or 'sha256' query parameter." };
+    }
+
+    if (sha256 && !isSha256(sha256)) {
+        return { status: 400, body: "Invalid 'sha256' value. Expected 64 hex characters." };
+    }
+
+    if (raw && !sha256) {
+        return { status: 400, body: "Raw passthrough requires a 'sha256' query parameter." };
+    }
+
+    // Blossom blobs are addressed by hash, so the hash (not the server) identifies the source.
+    // Candidates are the given url first, then each Blossom server in order.
+    const sourceKey = sha256 ? `sha256:${sha256}` : url;
+    const servers = request.query.get("servers") !== null ? parseServerList(request.query.get("servers")) : getDefaultBlossomServers();
+    const candidates = sha256 ? [...(url ? [url] : []), ...servers.map(server => blossomBlobUrl(server, sha256))] : [];
+    const blobMaxAge = sha256 ? IMMUTABLE_BLOB_CACHE_MAX_AGE_MS : BLOB_CACHE_MAX_AGE_MS;
+    const cacheControl = sha256
+        ? `public, max-age=${IMMUTABLE_BROWSER_CACHE_MAX_AGE}, immutable`
+        : `public, max-age=${BROWSER_CACHE_MAX_AGE}`;
+
+    if (sha256 && candidates.length === 0) {
+        return { status: 400, body: "No Blossom servers to resolve 'sha256'. Pass 'url' or 'servers'." };
+    }
+
+    if (raw) {
+        return rawPassthrough(request, sha256, candidates, cacheControl, context);
+    }
+
+    const presetName = request.query.get("preset");
+    const preset = presetName ? getPresets(context)[presetName] : undefined;
+    if (presetName && !preset) {
+        return { status: 400, body: `Unknown preset '${presetName}'. Available: ${Object.keys(getPresets(context)).join(", ")}` };
+    }
+    const param = createParamReader(request, preset);
+    const requestedFormat = (param("format") || "auto").toLowerCase();
+    if (requestedFormat !== "auto" && !OUTPUT_FORMATS.includes(requestedFormat)) {
+        return { status: 400, body: `Invalid format. Must be auto or one of: ${OUTPUT_FORMATS.join(", ")}` };
+    }
+
+    // Width and height (after the dpr multiplier) are limited to MAX_DIMENSION pixels
+    const options = parseTransformOptions(param);
+    if (typeof options === "string") {
+        return { status: 400, body: options };
+    }
+    const animated = options.animated;
 
-    if (!url) {
-        return { status: 400, body: "Missing 'url' query parameter." };
+    // Original metadata can identify the uploader, so only signed URLs may keep it
+    if (options.keepMetadata && request.query.get("sig") === null) {
+        return signatureErrorResponse("keepMetadata requires a signed URL");
     }
 
-    // Limit width and height to maximum 1024 pixels
-    const maxDimension = 1024;
-    const width = w ? Math.min(parseInt(w), maxDimension) : undefined;
-    const height = h ? Math.min(parseInt(h), maxDimension) : undefined;
+    // Opt-in placeholder for failed sources, seeded from 'seed' (e.g. a pubkey) or the source
+    const fallback = param("fallback")?.toLowerCase();
+    if (fallback && !FALLBACK_KINDS.includes(fallback)) {
+        return { status: 400, body: `Invalid fallback. Must be one of: ${FALLBACK_KINDS.join(", ")}` };
+    }
+    const fallbackSeed = request.query.get("seed") || sourceKey;
 
-    // Generate cache key
-    const cacheKey = generateCacheKey(url, width, height, format, quality);
+    // With format=auto the output depends on the Accept header, so responses vary by it
+    const isAuto = requestedFormat === "auto";
+    const accept = request.headers.get("accept") || "";
+    const varyHeaders: Record<string, string> = isAuto ? { "Vary": "Accept" } : {};
+    const metadataHeaders = { "X-Metadata-Stripped": options.keepMetadata ? "false" : "true" };
 
     try {
-        // Check cache first
-        const cachedBuffer = await getCachedImage(cacheKey, format, context);
-        if (cachedBuffer) {
-            return {
-                status: 200,
-                headers: {
-                    "Content-Type": `image/${format}`,
-                    "Cache-Control": `public, max-age=${BROWSER_CACHE_MAX_AGE}`,
-                    "X-Cache": "HIT"
-                },
-                body: cachedBuffer
-            };
+        // Check cache first, for every format the negotiation could settle on
+        const possibleFormats = isAuto ? candidateFormats(accept, animated) : [requestedFormat];
+        const hit = await findCachedVariant(sourceKey, possibleFormats, options, blobMaxAge, context);
+        if (hit) {
+            const { format: candidate, cacheKey: candidateKey, cached } = hit;
+
+            // Serve stale variants and refresh them, waiting at most REVALIDATE_WAIT_MS for the
+            // refresh. Verified Blossom content is immutable, so it only needs its timestamp refreshed.
+            if (cached.stale && sha256) {
+                await touchCachedImage(candidateKey, candidate, {}, context);
+            } else if (cached.stale) {
+                const revalidation = revalidateVariant(url, candidateKey, candidate, options, cached.validators, context)
+                    .catch(err => context.warn(`Background revalidation of ${url} failed: ${err}`));
+                await waitAtMost(revalidation, REVALIDATE_WAIT_MS);
+            }
+
+            // Variants cached before ETags were stored get theirs computed from the body
+            let body: Buffer | null = null;
+            const etag = cached.etag || computeVariantETag(candidateKey, body = await cached.read());
+
+            return imageResponse(request, {
+                ...varyHeaders,
+                ...metadataHeaders,
+                "Content-Type": `image/${candidate}`,
+                "Cache-Control": cacheControl,
+                "X-Cache": cached.stale && !sha256 ? "STALE" : "HIT"
+            }, etag, cached.lastModified, cached.size, async () => body || cached.read());
         }
-        const response = await axios.get(url, { responseType: "arraybuffer" });
 
-        const buffer = await sharp(response.data)
-            .resize({
-                width: width,
-                height: height,
-                fit: "cover"
-            })
-            .toFormat(format as keyof sharp.FormatEnum, { quality: quality })
-            .toBuffer();
+        const render = async (): Promise<RenderedVariant> => {
+            // Verify Blossom content before it is processed or cached
+            const { buffer: source, validators } = sha256
+                ? { ...checkImagePayload((await fetchVerifiedBlob(sha256, candidates, context)).buffer), validators: {} }
+                : await fetchImageSource(url);
+            const metadata = await readImageMetadata(source, url);
 
-        // Cache the processed image (await to ensure it completes before function exits)
-        await cacheImage(cacheKey, format, buffer, context);
+            const format = isAuto
+                ? negotiateFormat(accept, !!metadata.hasAlpha || !!options.mask, animated && (metadata.pages || 1) > 1)
+                : requestedFormat;
+            const cacheKey = generateCacheKey(sourceKey, format, options);
+            const buffer = await renderVariant(source, metadata, format, options, context);
 
-        return {
-            status: 200,
-            headers: {
-                "Content-Type": `image/${format}`,
-                "Cache-Control": `public, max-age=${BROWSER_CACHE_MAX_AGE}`,
-                "X-Cache": "MISS"
-            },
-            body: buffer
+            // Cache the processed image (await to ensure it completes before function exits)
+            await cacheImage(cacheKey, format, buffer, context, { validators });
+            return { format, cacheKey, buffer };
         };
+
+        // Concurrent misses for the same variant share one fetch and encode. The candidate
+        // formats stand in for the Accept header, since they determine the negotiated format.
+        const renderKey = generateCacheKey(sourceKey, isAuto ? `auto:${possibleFormats.join(",")}` : requestedFormat, options);
+        const { format, cacheKey, buffer } = await coalesce(renderKey, async () => {
+            const lease = await acquireRenderLease(renderKey, context);
+            if (!lease.acquired) {
+                const rendered = await waitForCachedVariant(sourceKey, possibleFormats, options, blobMaxAge, context);
+                if (rendered) {
+                    return rendered;
+                }
+                context.warn(`Render lease for ${sourceKey} still held after ${RENDER_LEASE_WAIT_MS}ms, rendering anyway`);
+            }
+
+            try {
+                return await render();
+            } finally {
+                await lease.release();
+            }
+        });
+
+        return imageResponse(request, {
+            ...varyHeaders,
+            ...metadataHeaders,
+            "Content-Type": `image/${format}`,
+            "Cache-Control": cacheControl,
+            "X-Cache": "MISS"
+        }, computeVariantETag(cacheKey, buffer), new Date(), buffer.length, async () => buffer);
     } catch (err) {
-        return { status: 500, body: `Error processing image: ${err}` };
+        if (fallback) {
+            context.warn(`Serving ${fallback} fallback for ${url || sha256}: ${err.message || err}`);
+            const format = isAuto ? negotiateFormat(accept, !!options.mask, false) : requestedFormat;
+            try {
+                return await fallbackResponse(fallback, fallbackSeed, format, options, varyHeaders);
+            } catch (fallbackErr) {
+                context.error(`Failed to render ${fallback} fallback: ${fallbackErr}`);
+                return { status: 500, jsonBody: { error: "Error processing image" } };
+            }
+        }
+        if (err instanceof UrlPolicyError) {
+            context.warn(`Blocked image source ${err.url}: ${err.message}`);
+            return blockedUrlResponse(err);
+        }
+        if (err instanceof BlossomResolutionError) {
+            return blossomErrorResponse(err);
+        }
+        const sourceError = imageSourceErrorResponse(err);
+        if (sourceError) {
+            context.warn(`Rejected image source ${url || sha256}: ${err.message}`);
+            return sourceError;
+        }
+        context.error(`Failed to process image ${url || sha256}: ${err}`);
+        return { status: 500, jsonBody: { error: "Error processing image" } };
     }
 };
 
 app.http('ImageOptimizeProxy', {
-    methods: ['GET', 'POST'],
+    methods: ['GET', 'HEAD', 'POST', 'OPTIONS'],
     authLevel: 'anonymous',
-    handler: ImageOptimizeProxy
+    // <img> requests carry no Origin header, so they are let through
+    handler: withCorsPolicy(withRateLimit(ImageOptimizeProxy, IMAGE_OPTIMIZE_BUDGET), {
+        methods: ['GET', 'HEAD', 'POST'],
+        allowedHeaders: ['Content-Type', 'Accept', 'If-None-Match', 'If-Modified-Since'],
+        exposedHeaders: ['ETag', 'X-Cache', 'X-Fallback', 'X-Metadata-Stripped'],
+        allowMissingOrigin: true
+    })
 });
\ No newline at end of file
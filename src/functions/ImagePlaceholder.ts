@@ -0,0 +1,98 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import * as crypto from "crypto";
+import { withCorsPolicy } from "../shared/corsPolicy";
+import { BROWSER_CACHE_MAX_AGE, cacheImage, getCachedImage } from "../shared/imageCache";
+import { computePlaceholder } from "../shared/imagePlaceholder";
+import { fetchImageSource, imageSourceErrorResponse, readImageMetadata } from "../shared/imageSource";
+import { withRateLimit } from "../shared/rateLimit";
+import { blockedUrlResponse, UrlPolicyError } from "../shared/urlPolicy";
+
+// Stored next to the image variants in the image-cache container
+const CACHE_EXTENSION = "placeholder.json";
+
+/**
+ * Image placeholder function for clients that need a blurhash when a Nostr event
+ * (NIP-94 / imeta) doesn't carry one.
+ *
+ * Usage: GET /api/image-placeholder?url=<encoded-url>
+ *
+ * Returns the blurhash, ThumbHash (base64), dominant colour and a tiny base64 WebP
+ * (LQIP) of the image. Results are cached per source URL.
+ */
+export async function ImagePlaceholder(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const url = request.query.get("url");
+
+    if (!url) {
+        return {
+            status: 400,
+            jsonBody: {
+                error: "Missing 'url' query parameter",
+                usage: "GET /api/image-placeholder?url=<encoded-url>"
+            }
+        };
+    }
+
+    const cacheKey = crypto.createHash("sha256").update(url).digest("hex");
+
+    try {
+        // Placeholders are cheap to recompute, so stale entries are treated as misses
+        const cached = await getCachedImage(cacheKey, CACHE_EXTENSION, context);
+        if (cached && !cached.stale) {
+            return {
+                status: 200,
+                headers: {
+                    "Content-Type": "application/json",
+                    "Cache-Control": `public, max-age=${BROWSER_CACHE_MAX_AGE}`,
+                    "X-Cache": "HIT"
+                },
+                body: await cached.read()
+            };
+        }
+
+        const source = await fetchImageSource(url);
+        await readImageMetadata(source.buffer, url);
+        const placeholder = await computePlaceholder(source.buffer);
+        const body = Buffer.from(JSON.stringify({ url, ...placeholder }));
+
+        await cacheImage(cacheKey, CACHE_EXTENSION, body, context, { contentType: "application/json" });
+
+        return {
+            status: 200,
+            headers: {
+                "Content-Type": "application/json",
+                "Cache-Control": `public, max-age=${BROWSER_CACHE_MAX_AGE}`,
+                "X-Cache": "MISS"
+            },
+            body
+        };
+    } catch (err) {
+        if (err instanceof UrlPolicyError) {
+            context.warn(`Blocked image source ${url}: ${err.message}`);
+            return blockedUrlResponse(err);
+        }
+
+        const sourceError = imageSourceErrorResponse(err);
+        if (sourceError) {
+            context.warn(`Rejected image source ${url}: ${err.message}`);
+            return sourceError;
+        }
+
+        context.error(`Failed to compute placeholder for ${url}: ${err}`);
+        return {
+            status: 500,
+            jsonBody: {
+                error: "Error processing image",
+                url
+            }
+        };
+    }
+}
+
+app.http('ImagePlaceholder', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'image-placeholder',
+    handler: withCorsPolicy(withRateLimit(ImagePlaceholder, { name: "ImagePlaceholder", requests: 300, windowSeconds: 60 }), {
+        methods: ['GET']
+    })
+});
@@ -0,0 +1,128 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import * as crypto from "crypto";
+import { coalesce } from "../shared/coalesce";
+import { hasValidApiKey, withCorsPolicy } from "../shared/corsPolicy";
+import { cacheImage, getCachedImage } from "../shared/imageCache";
+import { fetchLinkPreview, LinkPreview as Preview, LinkPreviewError } from "../shared/linkPreview";
+import { withRateLimit } from "../shared/rateLimit";
+import { blockedUrlResponse, UrlPolicyError } from "../shared/urlPolicy";
+import { signParams } from "../shared/urlSigning";
+
+// Stored next to the image variants in the image-cache container
+const CACHE_EXTENSION = "preview.json";
+const PREVIEW_MAX_AGE_MS = parseInt(process.env.LINK_PREVIEW_CACHE_MAX_AGE_MS || String(6 * 3600000)); // 6 hours
+const BROWSER_MAX_AGE = 3600; // 1 hour
+// Outlives a browser-cached preview, so its proxy URLs still work when it is reused
+const SIGNED_URL_TTL = 2 * BROWSER_MAX_AGE;
+const PROXY_PATH = "/api/ImageOptimizeProxy";
+
+/**
+ * Add ImageOptimizeProxy URLs to the preview images. Proxy URLs depend on the host the
+ * request came in on, so they are added per response rather than cached. Image URLs come
+ * from arbitrary pages, so they are only signed (with an expiry) for API key holders;
+ * anonymous callers get unsigned URLs.
+ */
+function withProxiedImages(preview: Preview, origin: string, preset: string | null, sign: boolean): Preview {
+    const expiresAt = Date.now() / 1000 + SIGNED_URL_TTL;
+    return {
+        ...preview,
+        images: preview.images.map(image => {
+            const params: Record<string, string> = { url: image.url };
+            if (preset) {
+                params.preset = preset;
+            }
+            return { ...image, proxyUrl: `${origin}${PROXY_PATH}?${new URLSearchParams(sign ? signParams(params, expiresAt) : params)}` };
+        })
+    };
+}
+
+async function loadPreview(url: string, context: InvocationContext): Promise<{ preview: Preview; cacheStatus: string }> {
+    const cacheKey = crypto.createHash("sha256").update(url).digest("hex");
+
+    // Previews are cheap to rebuild, so stale entries are treated as misses
+    const cached = await getCachedImage(cacheKey, CACHE_EXTENSION, context, PREVIEW_MAX_AGE_MS);
+    if (cached && !cached.stale) {
+        return { preview: JSON.parse((await cached.read()).toString("utf8")), cacheStatus: "HIT" };
+    }
+
+    const preview = await coalesce(`preview:${cacheKey}`, async () => {
+        const fetched = await fetchLinkPreview(url);
+        await cacheImage(cacheKey, CACHE_EXTENSION, Buffer.from(JSON.stringify(fetched)), context, { contentType: "application/json" });
+        return fetched;
+    });
+    return { preview, cacheStatus: "MISS" };
+}
+
+/**
+ * Link preview function that reads a page's Open Graph, Twitter Card, JSON-LD and basic HTML
+ * metadata server-side, so clients don't have to download whole pages through CorsProxy.
+ *
+ * Usage: GET /api/link-preview?url=<encoded-url>[&proxyImages=true][&imagePreset=<preset>]
+ *
+ * Returns one normalized JSON shape with absolute URLs. With proxyImages=true every image
+ * also gets a proxyUrl through ImageOptimizeProxy. Previews are cached per URL.
+ */
+export async function LinkPreview(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const url = request.query.get("url");
+    if (!url) {
+        return {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+            jsonBody: {
+                error: "Missing 'url' query parameter",
+                usage: "GET /api/link-preview?url=<encoded-url>[&proxyImages=true][&imagePreset=<preset>]"
+            }
+        };
+    }
+
+    try {
+        const { preview, cacheStatus } = await loadPreview(url, context);
+        const proxyImages = request.query.get("proxyImages") === "true";
+        const signed = proxyImages && hasValidApiKey(request);
+        const body = proxyImages
+            ? withProxiedImages(preview, new URL(request.url).origin, request.query.get("imagePreset"), signed)
+            : preview;
+
+        return {
+            status: 200,
+            headers: {
+                "Content-Type": "application/json",
+                // Signed URLs are for the key holder only, not for shared caches
+                "Cache-Control": `${signed ? "private" : "public"}, max-age=${BROWSER_MAX_AGE}`,
+                "X-Cache": cacheStatus
+            },
+            jsonBody: body
+        };
+    } catch (err) {
+        if (err instanceof UrlPolicyError) {
+            context.warn(`Blocked preview target ${url}: ${err.message}`);
+            return blockedUrlResponse(err);
+        }
+
+        if (err instanceof LinkPreviewError) {
+            context.warn(`Could not preview ${url}: ${err.message}`);
+            return {
+                status: err.status,
+                headers: { "Content-Type": "application/json" },
+                jsonBody: { error: err.message, url }
+            };
+        }
+
+        context.error(`Unexpected error previewing ${url}: ${err}`);
+        return {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+            jsonBody: { error: "Internal server error", url }
+        };
+    }
+}
+
+app.http('LinkPreview', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'link-preview',
+    handler: withCorsPolicy(withRateLimit(LinkPreview, { name: "LinkPreview", requests: 60, windowSeconds: 60 }), {
+        methods: ['GET'],
+        exposedHeaders: ['X-Cache']
+    })
+});
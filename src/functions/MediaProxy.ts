@@ -0,0 +1,288 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import axios from "axios";
+import { Socket } from "net";
+import * as path from "path";
+import { Readable } from "stream";
+import { withCorsPolicy } from "../shared/corsPolicy";
+import { isMediaMimeType, sniffMimeType, SNIFF_LENGTH } from "../shared/mimeSniff";
+import { withRateLimit } from "../shared/rateLimit";
+import { blockedUrlResponse, safeGet, UrlPolicyError } from "../shared/urlPolicy";
+
+// Stream response bodies instead of buffering them in the worker. This is an app-wide setting
+// that applies to every function, not just MediaProxy; buffered handlers are unaffected. It
+// needs @azure/functions 4.3.0+ and Functions host 4.28+, older hosts fail every HTTP request.
+app.setup({ enableHttpStream: true });
+
+const REQUEST_TIMEOUT = 15000; // 15 seconds until the origin answers
+const IDLE_TIMEOUT = 30000; // 30 seconds without data ends the stream
+const MAX_MEDIA_SIZE = parseInt(process.env.MEDIA_PROXY_MAX_BYTES || String(2 * 1024 * 1024 * 1024)); // 2GB
+const BROWSER_MAX_AGE = 3600; // 1 hour
+
+// Hosts often serve media with a generic type; the extension decides then
+const GENERIC_TYPES = ["", "application/octet-stream", "binary/octet-stream", "application/binary"];
+const MEDIA_EXTENSIONS: Record<string, string> = {
+    ".mp3": "audio/mpeg",
+    ".m4a": "audio/mp4",
+    ".m4b": "audio/mp4",
+    ".aac": "audio/aac",
+    ".ogg": "audio/ogg",
+    ".oga": "audio/ogg",
+    ".opus": "audio/ogg",
+    ".flac": "audio/flac",
+    ".wav": "audio/wav",
+    ".mp4": "video/mp4",
+    ".m4v": "video/mp4",
+    ".mov": "video/quicktime",
+    ".webm": "video/webm",
+    ".mkv": "video/x-matroska",
+    ".ogv": "video/ogg"
+};
+
+// Origin headers passed on to the client
+const PASSED_HEADERS: Record<string, string> = {
+    "content-length": "Content-Length",
+    "content-range": "Content-Range",
+    "etag": "ETag",
+    "last-modified": "Last-Modified"
+};
+
+// Only single byte ranges are forwarded; multipart range responses aren't media types
+const SINGLE_RANGE = /^bytes=(\d+-\d*|-\d+)$/;
+
+/**
+ * Read the first bytes of a stream for sniffing, returning them together with a stream that
+ * replays them followed by the rest. Destroying the replay stream destroys the source.
+ */
+async function peekStream(stream: Readable): Promise<{ head: Buffer; body: Readable }> {
+    const iterator: AsyncIterator<Buffer> = stream[Symbol.asyncIterator]();
+    const chunks: Buffer[] = [];
+    let length = 0;
+    let done = false;
+    while (length < SNIFF_LENGTH && !done) {
+        const next = await iterator.next();
+        done = Boolean(next.done);
+        if (!next.done) {
+            chunks.push(next.value);
+            length += next.value.length;
+        }
+    }
+
+    const body = Readable.from((async function* () {
+        try {
+            yield* chunks;
+            while (!done) {
+                const next = await iterator.next();
+                done = Boolean(next.done);
+                if (!next.done) {
+                    yield next.value;
+                }
+            }
+        } finally {
+            await iterator.return?.();
+        }
+    })());
+    return { head: Buffer.concat(chunks), body };
+}
+
+/**
+ * Pass a stream through, failing it once more than maxBytes have gone by, so an origin can't
+ * send more than its headers announced. Destroying the result destroys the source.
+ */
+function limitStream(source: Readable, maxBytes: number): Readable {
+    return Readable.from((async function* () {
+        let received = 0;
+        try {
+            for await (const chunk of source) {
+                received += chunk.length;
+                if (received > maxBytes) {
+                    throw new Error(`Media stream exceeded ${maxBytes} bytes`);
+                }
+                yield chunk;
+            }
+        } finally {
+            source.destroy();
+        }
+    })());
+}
+
+/**
+ * Total size of the media from Content-Range (bytes 0-99/1234) or, for full responses,
+ * Content-Length. Null when the origin doesn't say.
+ */
+function totalSize(status: number, headers: Record<string, any>): number | null {
+    if (status === 206) {
+        const total = /\/(\d+)\s*$/.exec(String(headers["content-range"] || ""));
+        return total ? parseInt(total[1]) : null;
+    }
+    return parseInt(headers["content-length"] || "") || null;
+}
+
+function jsonError(status: number, body: Record<string, unknown>): HttpResponseInit {
+    return {
+        status,
+        headers: { "Content-Type": "application/json" },
+        jsonBody: body
+    };
+}
+
+/**
+ * Media streaming proxy for audio and video on hosts without CORS headers, such as podcast
+ * enclosures and video attachments in Nostr notes.
+ *
+ * Usage: GET /api/media-proxy?url=<encoded-url>
+ *
+ * This proxy:
+ * - Forwards single byte-range requests, answering 206 with Content-Range so players can seek
+ * - Streams bodies through without buffering them, ending them past MEDIA_PROXY_MAX_BYTES
+ * - Only passes audio/* and video/* content (by Content-Type, file extension or sniffing)
+ * - Rejects private, loopback and link-local targets (including via redirects)
+ */
+export async function MediaProxy(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const url = request.query.get("url");
+    if (!url) {
+        return jsonError(400, {
+            error: "Missing 'url' query parameter",
+            usage: "GET /api/media-proxy?url=<encoded-url>"
+        });
+    }
+
+    let parsedUrl: URL;
+    try {
+        parsedUrl = new URL(url);
+    } catch {
+        return jsonError(400, { error: "Invalid URL format", url });
+    }
+
+    const range = request.headers.get("range")?.replace(/\s+/g, "");
+    const upstreamHeaders: Record<string, string> = {
+        "Accept": "audio/*, video/*;q=0.9, */*;q=0.5",
+        // Lengths and ranges must describe the bytes that are passed on
+        "Accept-Encoding": "identity",
+        "User-Agent": "Mozilla/5.0 (compatible; nostria-proxy/1.0; +media)"
+    };
+    // Other Range forms are ignored, which HTTP allows; the full body is served instead
+    if (range && SINGLE_RANGE.test(range)) {
+        upstreamHeaders["Range"] = range;
+        const ifRange = request.headers.get("if-range");
+        if (ifRange) {
+            upstreamHeaders["If-Range"] = ifRange;
+        }
+    }
+
+    let stream: Readable | undefined;
+    try {
+        const response = await safeGet<Readable>(url, {
+            responseType: "stream",
+            decompress: false,
+            timeout: REQUEST_TIMEOUT,
+            headers: upstreamHeaders,
+            validateStatus: (status) => status === 200 || status === 206 || status === 416
+        });
+        stream = response.data;
+        // The idle timeout is set on the connection, which stalls whatever reads from it
+        const socket: Socket | undefined = response.request?.socket;
+        socket?.setTimeout(IDLE_TIMEOUT, () => stream.destroy(new Error("Media stream stalled")));
+
+        if (response.status === 416) {
+            stream.destroy();
+            return {
+                status: 416,
+                headers: { "Content-Range": response.headers["content-range"] || "bytes */*" }
+            };
+        }
+
+        const encoding = String(response.headers["content-encoding"] || "identity").trim().toLowerCase();
+        if (encoding !== "identity") {
+            stream.destroy();
+            context.warn(`Rejected ${encoding} encoded media from ${parsedUrl.host}`);
+            return jsonError(502, { error: "Origin sent encoded content despite Accept-Encoding: identity", contentEncoding: encoding, url });
+        }
+
+        const size = totalSize(response.status, response.headers);
+        if (size && size > MAX_MEDIA_SIZE) {
+            stream.destroy();
+            return jsonError(413, { error: `Media exceeds ${MAX_MEDIA_SIZE} bytes`, url });
+        }
+
+        // Media types pass as is. For generic types the extension of the final URL decides,
+        // and content starting at byte 0 is sniffed as a last resort.
+        const finalUrl = response.config.url || url;
+        const serverType = String(response.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+        const generic = GENERIC_TYPES.includes(serverType);
+        let contentType = isMediaMimeType(serverType)
+            ? serverType
+            : generic ? MEDIA_EXTENSIONS[path.extname(new URL(finalUrl).pathname).toLowerCase()] : undefined;
+        let body: Readable = stream;
+        const startsAtZero = response.status === 200 || /^bytes 0-/.test(String(response.headers["content-range"] || ""));
+        if (!contentType && generic && startsAtZero) {
+            const peeked = await peekStream(stream);
+            const sniffed = sniffMimeType(peeked.head);
+            body = peeked.body;
+            contentType = isMediaMimeType(sniffed) ? sniffed : undefined;
+        }
+
+        if (!contentType) {
+            body.destroy();
+            context.warn(`Blocked media content type ${serverType || "(none)"} for ${parsedUrl.host}`);
+            return jsonError(415, { error: "Only audio and video content can be proxied", contentType: serverType || null, url });
+        }
+
+        const headers: Record<string, string> = {
+            "Content-Type": contentType,
+            "Accept-Ranges": response.status === 206 ? "bytes" : response.headers["accept-ranges"] || "none",
+            "Cache-Control": `public, max-age=${BROWSER_MAX_AGE}`,
+            "X-Proxied-URL": url
+        };
+        for (const [name, header] of Object.entries(PASSED_HEADERS)) {
+            if (response.headers[name]) {
+                headers[header] = String(response.headers[name]);
+            }
+        }
+
+        if (request.method === "HEAD") {
+            body.destroy();
+            return { status: response.status, headers };
+        }
+
+        // Content-Length and Content-Range are optional and not binding, so count what arrives
+        const limited = limitStream(body, MAX_MEDIA_SIZE);
+        limited.on("error", err => context.warn(`Aborted media stream from ${parsedUrl.host}: ${err.message}`));
+        return { status: response.status, headers, body: limited };
+    } catch (err) {
+        stream?.destroy();
+
+        if (err instanceof UrlPolicyError) {
+            context.warn(`Blocked media target ${url}: ${err.message}`);
+            return blockedUrlResponse(err);
+        }
+
+        if (axios.isAxiosError(err)) {
+            context.warn(`Failed to fetch media ${url}: ${err.message}`);
+            if (err.code === "ECONNABORTED") {
+                return jsonError(504, { error: "Request timeout", url });
+            }
+            const status = err.response?.status;
+            return jsonError(status && status >= 400 && status < 500 ? status : 502, { error: "Failed to fetch media", url, status });
+        }
+
+        if (err.code === "ENOTFOUND" || err.code === "EAI_AGAIN") {
+            return jsonError(502, { error: "Could not resolve host", url });
+        }
+
+        context.error(`Unexpected error proxying media ${url}: ${err}`);
+        return jsonError(500, { error: "Internal server error", url });
+    }
+}
+
+app.http('MediaProxy', {
+    methods: ['GET', 'HEAD', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'media-proxy',
+    // <audio> and <video> requests without crossorigin carry no Origin header
+    handler: withCorsPolicy(withRateLimit(MediaProxy, { name: "MediaProxy", requests: 300, windowSeconds: 60 }), {
+        methods: ['GET', 'HEAD'],
+        allowedHeaders: ['Range', 'If-Range', 'Accept'],
+        exposedHeaders: ['Accept-Ranges', 'Content-Length', 'Content-Range', 'ETag'],
+        allowMissingOrigin: true
+    })
+});
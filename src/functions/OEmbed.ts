@@ -0,0 +1,85 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import axios from "axios";
+import { withCorsPolicy } from "../shared/corsPolicy";
+import { fetchOEmbed } from "../shared/oembed";
+import { withRateLimit } from "../shared/rateLimit";
+import { blockedUrlResponse, UrlPolicyError } from "../shared/urlPolicy";
+
+const BROWSER_MAX_AGE = 3600; // 1 hour
+
+function parseDimension(value: string | null): number | undefined {
+    const number = parseInt(value || "");
+    return number > 0 ? number : undefined;
+}
+
+/**
+ * oEmbed lookup function. Finds the provider for a URL in the provider registry (our own
+ * providers, then the public oEmbed providers list) and returns its oEmbed response.
+ *
+ * Usage: GET /api/oembed?url=<encoded-url>[&maxwidth=<px>][&maxheight=<px>]
+ */
+export async function OEmbed(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const url = request.query.get("url");
+    if (!url) {
+        return {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+            jsonBody: {
+                error: "Missing 'url' query parameter",
+                usage: "GET /api/oembed?url=<encoded-url>[&maxwidth=<px>][&maxheight=<px>]"
+            }
+        };
+    }
+
+    try {
+        const result = await fetchOEmbed(url, {
+            maxwidth: parseDimension(request.query.get("maxwidth")),
+            maxheight: parseDimension(request.query.get("maxheight"))
+        }, context);
+
+        if (!result) {
+            return {
+                status: 404,
+                headers: { "Content-Type": "application/json" },
+                jsonBody: { error: "No oEmbed provider for this URL", url }
+            };
+        }
+
+        return {
+            status: 200,
+            headers: {
+                "Content-Type": "application/json",
+                "Cache-Control": `public, max-age=${BROWSER_MAX_AGE}`,
+                "X-OEmbed-Provider": result.provider.name
+            },
+            jsonBody: result.data
+        };
+    } catch (err) {
+        if (err instanceof UrlPolicyError) {
+            context.warn(`Blocked oEmbed lookup for ${url}: ${err.message}`);
+            return blockedUrlResponse(err);
+        }
+
+        context.warn(`oEmbed lookup for ${url} failed: ${err}`);
+        const timedOut = axios.isAxiosError(err) && err.code === "ECONNABORTED";
+        return {
+            status: timedOut ? 504 : 502,
+            headers: { "Content-Type": "application/json" },
+            jsonBody: {
+                error: "oEmbed provider request failed",
+                url,
+                status: axios.isAxiosError(err) ? err.response?.status : undefined
+            }
+        };
+    }
+}
+
+app.http('OEmbed', {
+    methods: ['GET', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'oembed',
+    handler: withCorsPolicy(withRateLimit(OEmbed, { name: "OEmbed", requests: 60, windowSeconds: 60 }), {
+        methods: ['GET'],
+        exposedHeaders: ['X-OEmbed-Provider']
+    })
+});
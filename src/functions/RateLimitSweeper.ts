@@ -0,0 +1,31 @@
+import { app, InvocationContext, Timer } from "@azure/functions";
+import { sweepRateLimitStore } from "../shared/rateLimit";
+
+const SWEEP_SCHEDULE = process.env.RATE_LIMIT_SWEEP_SCHEDULE || "0 30 * * * *"; // Every hour
+
+/**
+ * Scheduled cleanup of rate limit buckets.
+ *
+ * Deletes buckets that have refilled completely, which carry no information. Without it the
+ * azure store keeps one blob per client and function forever. Stores without sweep support
+ * are left alone.
+ */
+export async function RateLimitSweeper(timer: Timer, context: InvocationContext): Promise<void> {
+    const startedAt = Date.now();
+
+    const swept = await sweepRateLimitStore(context);
+    if (swept === null) {
+        context.log("Rate limit store doesn't support sweeping, nothing to do");
+        return;
+    }
+
+    context.log(
+        `Rate limit sweep finished in ${Date.now() - startedAt}ms: deleted ${swept} refilled buckets` +
+        (timer.isPastDue ? " (run was past due)" : "")
+    );
+}
+
+app.timer('RateLimitSweeper', {
+    schedule: SWEEP_SCHEDULE,
+    handler: RateLimitSweeper
+});
@@ -0,0 +1,123 @@
+import { BlobServiceClient, ContainerClient } from "@azure/storage-blob";
+import { CacheEntryInfo, CacheLease, CacheStorage } from "./cacheStorage";
+
+/**
+ * Cache storage in an Azure Blob Storage container, using the AzureWebJobsStorage connection
+ */
+export class AzureBlobCacheStorage implements CacheStorage {
+    private containerClient: ContainerClient | null = null;
+
+    constructor(private readonly containerName: string) {}
+
+    async getContainerClient(): Promise<ContainerClient> {
+        if (this.containerClient) {
+            return this.containerClient;
+        }
+
+        const connectionString = process.env.AzureWebJobsStorage;
+        if (!connectionString) {
+            throw new Error("AzureWebJobsStorage connection string not configured");
+        }
+
+        const blobServiceClient = BlobServiceClient.fromConnectionString(connectionString);
+        const client = blobServiceClient.getContainerClient(this.containerName);
+
+        // Create container if it doesn't exist (private access - no public blob access)
+        await client.createIfNotExists();
+
+        // Only set the cached client after successful initialization
+        this.containerClient = client;
+        return client;
+    }
+
+    async getInfo(name: string): Promise<CacheEntryInfo | null> {
+        const container = await this.getContainerClient();
+        const properties = await container.getBlobClient(name).getProperties().catch(() => null);
+        if (!properties) {
+            return null;
+        }
+
+        return {
+            name,
+            size: properties.contentLength || 0,
+            contentType: properties.contentType,
+            metadata: properties.metadata || {},
+            lastModified: properties.lastModified || new Date()
+        };
+    }
+
+    async read(name: string): Promise<Buffer> {
+        const container = await this.getContainerClient();
+        const downloadResponse = await container.getBlobClient(name).download();
+        const chunks: Buffer[] = [];
+
+        for await (const chunk of downloadResponse.readableStreamBody as NodeJS.ReadableStream) {
+            chunks.push(Buffer.from(chunk));
+        }
+
+        return Buffer.concat(chunks);
+    }
+
+    async write(name: string, body: Buffer, contentType: string, metadata: Record<string, string>): Promise<void> {
+        const container = await this.getContainerClient();
+        await container.getBlockBlobClient(name).upload(body, body.length, {
+            blobHTTPHeaders: {
+                blobContentType: contentType
+            },
+            metadata
+        });
+    }
+
+    async setMetadata(name: string, metadata: Record<string, string>): Promise<void> {
+        const container = await this.getContainerClient();
+        await container.getBlobClient(name).setMetadata(metadata);
+    }
+
+    async delete(name: string): Promise<boolean> {
+        const container = await this.getContainerClient();
+        const response = await container.getBlobClient(name).deleteIfExists({ deleteSnapshots: "include" });
+        return response.succeeded;
+    }
+
+    async *list(): AsyncIterable<CacheEntryInfo> {
+        const container = await this.getContainerClient();
+        for await (const blob of container.listBlobsFlat({ includeMetadata: true })) {
+            yield {
+                name: blob.name,
+                size: blob.properties.contentLength || 0,
+                contentType: blob.properties.contentType,
+                metadata: blob.metadata || {},
+                lastModified: blob.properties.lastModified
+            };
+        }
+    }
+
+    /**
+     * Lease an (empty) lock blob with the given name. The lock blob is created on demand and
+     * deleted again on release.
+     */
+    async acquireLease(name: string, durationSeconds: number): Promise<CacheLease | null> {
+        const container = await this.getContainerClient();
+        const blob = container.getBlockBlobClient(name);
+
+        // Create the lock blob unless it exists; fails harmlessly when it is already leased
+        await blob.upload("", 0, { conditions: { ifNoneMatch: "*" } }).catch(() => undefined);
+
+        const leaseClient = blob.getBlobLeaseClient();
+        try {
+            await leaseClient.acquireLease(durationSeconds);
+        } catch (err) {
+            if (err.statusCode === 409) {
+                return null;
+            }
+            throw err;
+        }
+
+        return {
+            release: async () => {
+                await leaseClient.releaseLease().catch(() => undefined);
+                await blob.deleteIfExists().catch(() => undefined);
+            }
+        };
+    }
+}
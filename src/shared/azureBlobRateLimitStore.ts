@@ -0,0 +1,105 @@
+import { BlobServiceClient, ContainerClient } from "@azure/storage-blob";
+import { RateLimitStore, TokenBucketState } from "./rateLimit";
+
+// Concurrent requests from one client race on the same blob; each conflict costs a retry
+const MAX_ATTEMPTS = 8;
+const RETRY_DELAY_MS = 20;
+
+/**
+ * Token buckets shared between instances, one JSON blob per bucket in an Azure Blob Storage
+ * container (AzureWebJobsStorage connection). Updates use ETag conditions, so concurrent
+ * writers retry instead of overwriting each other. fullAt is also kept in blob metadata, so
+ * sweep can find refilled buckets from the listing alone.
+ */
+export class AzureBlobRateLimitStore implements RateLimitStore {
+    private containerClient: ContainerClient | null = null;
+
+    constructor(private readonly containerName: string) {}
+
+    async getContainerClient(): Promise<ContainerClient> {
+        if (this.containerClient) {
+            return this.containerClient;
+        }
+
+        const connectionString = process.env.AzureWebJobsStorage;
+        if (!connectionString) {
+            throw new Error("AzureWebJobsStorage connection string not configured");
+        }
+
+        const client = BlobServiceClient.fromConnectionString(connectionString).getContainerClient(this.containerName);
+        await client.createIfNotExists();
+
+        this.containerClient = client;
+        return client;
+    }
+
+    async update(key: string, update: (current: TokenBucketState | null) => TokenBucketState): Promise<TokenBucketState> {
+        const container = await this.getContainerClient();
+        const blob = container.getBlockBlobClient(key);
+
+        for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+            if (attempt > 0) {
+                // Jittered backoff so racing writers don't collide again
+                await new Promise(resolve => setTimeout(resolve, Math.random() * RETRY_DELAY_MS * attempt));
+            }
+
+            let current: TokenBucketState | null = null;
+            let etag: string | undefined;
+            try {
+                // The download carries the ETag, so a read is one round trip
+                const response = await blob.download();
+                const chunks: Buffer[] = [];
+                for await (const chunk of response.readableStreamBody as NodeJS.ReadableStream) {
+                    chunks.push(Buffer.from(chunk));
+                }
+                etag = response.etag;
+                current = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+            } catch (err) {
+                if (err.statusCode !== 404) {
+                    throw err;
+                }
+            }
+
+            const next = update(current);
+            const body = JSON.stringify(next);
+            try {
+                await blob.upload(body, Buffer.byteLength(body), {
+                    blobHTTPHeaders: { blobContentType: "application/json" },
+                    metadata: { fullat: next.fullAt.toString() },
+                    conditions: etag ? { ifMatch: etag } : { ifNoneMatch: "*" }
+                });
+                return next;
+            } catch (err) {
+                // 412: changed since we read it; 409: created by someone else in the meantime
+                if (err.statusCode !== 412 && err.statusCode !== 409) {
+                    throw err;
+                }
+            }
+        }
+
+        throw new Error(`Too many concurrent updates to rate limit bucket ${key}`);
+    }
+
+    async sweep(now: number): Promise<number> {
+        const container = await this.getContainerClient();
+        let deleted = 0;
+
+        for await (const item of container.listBlobsFlat({ includeMetadata: true })) {
+            // Buckets without fullat are treated as refilled
+            if (parseInt(item.metadata?.fullat || "0") > now) {
+                continue;
+            }
+
+            try {
+                // Conditional, so a bucket drawn from since the listing is kept
+                await container.getBlockBlobClient(item.name).delete({ conditions: { ifMatch: item.properties.etag } });
+                deleted++;
+            } catch (err) {
+                if (err.statusCode !== 404 && err.statusCode !== 412) {
+                    throw err;
+                }
+            }
+        }
+        return deleted;
+    }
+}
@@ -0,0 +1,85 @@
+import { InvocationContext } from "@azure/functions";
+import * as crypto from "crypto";
+import { fetchSourceBytes } from "./imageSource";
+import { UrlPolicyError } from "./urlPolicy";
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+const MAX_CANDIDATES = 10;
+
+export interface BlossomAttempt {
+    url: string;
+    error: string;
+}
+
+/**
+ * Thrown when none of the candidate servers returned a blob matching the requested hash
+ */
+export class BlossomResolutionError extends Error {
+    constructor(public readonly sha256: string, public readonly attempts: BlossomAttempt[]) {
+        super(`No server returned a blob matching sha256 ${sha256}`);
+        this.name = "BlossomResolutionError";
+    }
+}
+
+export function isSha256(value: string): boolean {
+    return SHA256_PATTERN.test(value);
+}
+
+/**
+ * Default Blossom servers from the BLOSSOM_SERVERS setting (comma-separated)
+ */
+export function getDefaultBlossomServers(): string[] {
+    return parseServerList(process.env.BLOSSOM_SERVERS || "");
+}
+
+/**
+ * Parse a comma-separated list of Blossom servers. Bare host names get https://.
+ */
+export function parseServerList(value: string): string[] {
+    return value
+        .split(",")
+        .map(server => server.trim())
+        .filter(server => server.length > 0)
+        .map(server => /^https?:\/\//i.test(server) ? server : `https://${server}`);
+}
+
+/**
+ * Build the blob URL on a Blossom server (GET /<sha256>)
+ */
+export function blossomBlobUrl(server: string, sha256: string): string {
+    return `${server.replace(/\/+$/, "")}/${sha256}`;
+}
+
+/**
+ * Fetch a blob by hash, trying each candidate URL in order. The bytes are verified against
+ * the hash; on a mismatch or failure the next candidate is tried. When every candidate was
+ * rejected by the outbound URL policy, the first policy error is rethrown.
+ */
+export async function fetchVerifiedBlob(sha256: string, candidates: string[], context?: InvocationContext): Promise<{ buffer: Buffer; url: string }> {
+    const attempts: BlossomAttempt[] = [];
+    const policyErrors: UrlPolicyError[] = [];
+
+    for (const url of candidates.slice(0, MAX_CANDIDATES)) {
+        try {
+            const { buffer } = await fetchSourceBytes(url);
+            const actual = crypto.createHash("sha256").update(buffer).digest("hex");
+            if (actual === sha256) {
+                return { buffer, url };
+            }
+            context?.warn(`Blossom hash mismatch from ${url}: expected ${sha256}, got ${actual}`);
+            attempts.push({ url, error: `Hash mismatch (${actual})` });
+        } catch (err) {
+            if (err instanceof UrlPolicyError) {
+                policyErrors.push(err);
+            }
+            context?.warn(`Blossom fetch from ${url} failed: ${err.message || err}`);
+            attempts.push({ url, error: err.message || String(err) });
+        }
+    }
+
+    if (policyErrors.length > 0 && policyErrors.length === attempts.length) {
+        throw policyErrors[0];
+    }
+
+    throw new BlossomResolutionError(sha256, attempts);
+}
@@ -0,0 +1,89 @@
+import { InvocationContext } from "@azure/functions";
+import * as os from "os";
+import * as path from "path";
+import { AzureBlobCacheStorage } from "./azureBlobCacheStorage";
+import { FileCacheStorage } from "./fileCacheStorage";
+import { MemoryCacheStorage } from "./memoryCacheStorage";
+
+/**
+ * Properties of a stored cache entry, without its body
+ */
+export interface CacheEntryInfo {
+    name: string;
+    size: number;
+    contentType?: string;
+    metadata: Record<string, string>;
+    lastModified: Date;
+}
+
+/**
+ * An exclusive, time-limited lease on a cache entry name, held across instances
+ */
+export interface CacheLease {
+    release(): Promise<void>;
+}
+
+/**
+ * Storage backend for cached variants. Entries are named blobs with a content type and
+ * string metadata. Metadata values must be ASCII (a restriction of Azure Blob Storage).
+ */
+export interface CacheStorage {
+    getInfo(name: string): Promise<CacheEntryInfo | null>;
+    read(name: string): Promise<Buffer>;
+    write(name: string, body: Buffer, contentType: string, metadata: Record<string, string>): Promise<void>;
+    setMetadata(name: string, metadata: Record<string, string>): Promise<void>;
+    delete(name: string): Promise<boolean>;
+    list(): AsyncIterable<CacheEntryInfo>;
+    /**
+     * Acquire a lease on a name, or return null when another holder has it. Only backends
+     * shared between instances implement this.
+     */
+    acquireLease?(name: string, durationSeconds: number): Promise<CacheLease | null>;
+}
+
+const storages = new Map<string, CacheStorage>();
+
+/**
+ * Which backend to use: IMAGE_CACHE_STORAGE (azure, filesystem or memory). Without it, Azure Blob
+ * Storage is used when AzureWebJobsStorage is configured and memory otherwise.
+ */
+export function getCacheStorageType(): string {
+    const configured = (process.env.IMAGE_CACHE_STORAGE || "").toLowerCase();
+    if (configured) {
+        return configured;
+    }
+    return process.env.AzureWebJobsStorage ? "azure" : "memory";
+}
+
+/**
+ * Get the configured storage backend for a cache container (one instance per container)
+ */
+export function getCacheStorage(containerName: string, context?: InvocationContext): CacheStorage {
+    const type = getCacheStorageType();
+    const id = `${type}:${containerName}`;
+
+    let storage = storages.get(id);
+    if (storage) {
+        return storage;
+    }
+
+    switch (type) {
+        case "azure":
+            storage = new AzureBlobCacheStorage(containerName);
+            break;
+        case "filesystem": {
+            const root = process.env.IMAGE_CACHE_DIRECTORY || path.join(os.tmpdir(), "nostria-proxy-cache");
+            storage = new FileCacheStorage(path.join(root, containerName));
+            break;
+        }
+        case "memory":
+            storage = new MemoryCacheStorage(parseInt(process.env.IMAGE_CACHE_MEMORY_MAX_BYTES || String(256 * 1024 * 1024))); // 256MB
+            break;
+        default:
+            context?.error(`Unknown IMAGE_CACHE_STORAGE '${type}', falling back to memory`);
+            storage = new MemoryCacheStorage(parseInt(process.env.IMAGE_CACHE_MEMORY_MAX_BYTES || String(256 * 1024 * 1024)));
+    }
+
+    storages.set(id, storage);
+    return storage;
+}
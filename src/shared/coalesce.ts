@@ -0,0 +1,16 @@
+const inFlight = new Map<string, Promise<any>>();
+
+/**
+ * Run a producer at most once at a time per key on this instance. Concurrent callers with
+ * the same key share the pending result (or error) instead of starting their own.
+ */
+export function coalesce<T>(key: string, producer: () => Promise<T>): Promise<T> {
+    const pending = inFlight.get(key);
+    if (pending) {
+        return pending;
+    }
+
+    const promise = producer().finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+}
@@ -0,0 +1,192 @@
+import { HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import * as crypto from "crypto";
+
+const PREFLIGHT_MAX_AGE = "86400"; // 24 hours
+const API_KEY_HEADER = "x-api-key";
+
+/**
+ * CORS behaviour of a function. Which origins are allowed is configured globally with
+ * CORS_ALLOWED_ORIGINS; the policy describes what the function itself accepts.
+ */
+export interface CorsPolicy {
+    methods: string[];
+    allowedHeaders?: string[];
+    /** Response headers that browser scripts may read */
+    exposedHeaders?: string[];
+    /**
+     * Let requests without an Origin header through without an API key. Needed where browsers
+     * load the response directly, as with <img src>, which sends no Origin.
+     */
+    allowMissingOrigin?: boolean;
+}
+
+type HttpHandler = (request: HttpRequest, context: InvocationContext) => Promise<HttpResponseInit>;
+
+interface OriginPattern {
+    protocol: string;
+    host: string;
+    /** Match subdomains of host rather than host itself */
+    wildcard: boolean;
+}
+
+let allowedOrigins: OriginPattern[] | null | undefined;
+let apiKeyHashes: Buffer[] | undefined;
+
+/**
+ * Parse an allowlist entry: an exact origin (https://nostria.app) or a wildcard subdomain
+ * pattern (https://*.nostria.app). Returns null for entries that are neither.
+ */
+function parseOriginPattern(entry: string): OriginPattern | null {
+    const wildcard = /^(https?:)\/\/\*\.(.+)$/i.exec(entry);
+    try {
+        const url = new URL(wildcard ? `${wildcard[1]}//${wildcard[2]}` : entry);
+        if (url.pathname !== "/" || url.search || url.username) {
+            return null;
+        }
+        return { protocol: url.protocol, host: url.host, wildcard: Boolean(wildcard) };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Origins from CORS_ALLOWED_ORIGINS (comma-separated), or null when every origin is allowed
+ * (the setting is unset or contains *)
+ */
+function getAllowedOrigins(context?: InvocationContext): OriginPattern[] | null {
+    if (allowedOrigins !== undefined) {
+        return allowedOrigins;
+    }
+
+    const entries = (process.env.CORS_ALLOWED_ORIGINS || "").split(",").map(entry => entry.trim()).filter(Boolean);
+    if (entries.length === 0 || entries.includes("*")) {
+        allowedOrigins = null;
+        return allowedOrigins;
+    }
+
+    allowedOrigins = [];
+    for (const entry of entries) {
+        const pattern = parseOriginPattern(entry);
+        if (pattern) {
+            allowedOrigins.push(pattern);
+        } else {
+            context?.error(`Ignoring invalid CORS_ALLOWED_ORIGINS entry '${entry}'`);
+        }
+    }
+    return allowedOrigins;
+}
+
+/**
+ * Whether an Origin header value is on the allowlist. Wildcard patterns match any depth of
+ * subdomain but not the domain itself; scheme and port must match exactly.
+ */
+export function isOriginAllowed(origin: string, context?: InvocationContext): boolean {
+    const patterns = getAllowedOrigins(context);
+    if (!patterns) {
+        return true;
+    }
+
+    let url: URL;
+    try {
+        url = new URL(origin);
+    } catch {
+        return false;
+    }
+
+    return patterns.some(pattern => url.protocol === pattern.protocol && (pattern.wildcard
+        ? url.host.endsWith(`.${pattern.host}`)
+        : url.host === pattern.host));
+}
+
+/**
+ * Whether the request carries one of the keys in CORS_API_KEYS in its X-API-Key header.
+ * Keys are compared as hashes in constant time.
+ */
+export function hasValidApiKey(request: HttpRequest): boolean {
+    apiKeyHashes = apiKeyHashes || (process.env.CORS_API_KEYS || "").split(",")
+        .map(key => key.trim())
+        .filter(Boolean)
+        .map(key => crypto.createHash("sha256").update(key).digest());
+
+    const provided = request.headers.get(API_KEY_HEADER);
+    if (!provided || apiKeyHashes.length === 0) {
+        return false;
+    }
+    const hash = crypto.createHash("sha256").update(provided).digest();
+    return apiKeyHashes.some(candidate => crypto.timingSafeEqual(candidate, hash));
+}
+
+function forbidden(message: string, headers: Record<string, string>): HttpResponseInit {
+    return {
+        status: 403,
+        headers: { ...headers, "Content-Type": "application/json" },
+        jsonBody: { error: message }
+    };
+}
+
+/**
+ * Apply the CORS origin policy to a function handler. The wrapped handler answers preflight
+ * requests itself and adds the CORS headers to every response, so handlers don't set any.
+ *
+ * Without CORS_ALLOWED_ORIGINS every origin is allowed and responses carry
+ * Access-Control-Allow-Origin: *. With it, an allowed origin is echoed back with
+ * Vary: Origin, other origins get 403 (preflight included), and requests without an Origin
+ * are only let through with an API key from CORS_API_KEYS unless the policy allows them.
+ */
+export function withCorsPolicy(handler: HttpHandler, policy: CorsPolicy): HttpHandler {
+    const methods = policy.methods.includes("OPTIONS") ? policy.methods : [...policy.methods, "OPTIONS"];
+
+    return async (request, context) => {
+        const origin = request.headers.get("origin");
+        const restricted = getAllowedOrigins(context) !== null;
+        const allowed = origin ? isOriginAllowed(origin, context) : false;
+
+        const headers: Record<string, string> = {};
+        if (!restricted) {
+            headers["Access-Control-Allow-Origin"] = "*";
+        } else {
+            // Responses differ by origin, so shared caches must key on it
+            headers["Vary"] = "Origin";
+            if (allowed) {
+                headers["Access-Control-Allow-Origin"] = origin;
+            }
+        }
+        if (policy.exposedHeaders?.length && headers["Access-Control-Allow-Origin"]) {
+            headers["Access-Control-Expose-Headers"] = policy.exposedHeaders.join(", ");
+        }
+
+        if (request.method === "OPTIONS") {
+            if (restricted && !allowed) {
+                context.warn(`Rejected preflight from origin ${origin || "(none)"}`);
+                return forbidden("Origin not allowed", headers);
+            }
+            return {
+                status: 204,
+                headers: {
+                    ...headers,
+                    "Access-Control-Allow-Methods": methods.join(", "),
+                    "Access-Control-Allow-Headers": (policy.allowedHeaders || ["Content-Type", "Accept"]).join(", "),
+                    "Access-Control-Max-Age": PREFLIGHT_MAX_AGE
+                }
+            };
+        }
+
+        if (restricted && !allowed && !hasValidApiKey(request)) {
+            if (origin) {
+                context.warn(`Rejected request from origin ${origin}`);
+                return forbidden("Origin not allowed", headers);
+            }
+            if (!policy.allowMissingOrigin) {
+                return forbidden("Requests without an allowed Origin need an API key", headers);
+            }
+        }
+
+        // Handlers return plain header records
+        const response = await handler(request, context);
+        const responseHeaders: Record<string, string> = { ...(response.headers as Record<string, string>) };
+        for (const [name, value] of Object.entries(headers)) {
+            responseHeaders[name] = name === "Vary" && responseHeaders.Vary ? `${responseHeaders.Vary}, ${value}` : value;
+        }
+        return { ...response, headers: responseHeaders };
+    };
+}
@@ -0,0 +1,61 @@
+import * as crypto from "crypto";
+
+export const FALLBACK_KINDS = ["identicon", "silhouette"];
+
+const IDENTICON_GRID = 5;
+
+/**
+ * Identicon: a horizontally mirrored 5x5 grid with a foreground color, both derived from
+ * the sha256 of the seed, so the same seed (pubkey, URL) always gets the same image
+ */
+function identiconSvg(seed: string, width: number, height: number): string {
+    const hash = crypto.createHash("sha256").update(seed).digest();
+    const hue = hash.readUInt16BE(0) % 360;
+    const saturation = 45 + hash[2] % 20;
+    const lightness = 45 + hash[3] % 15;
+
+    const size = Math.min(width, height);
+    const cell = size / (IDENTICON_GRID + 1); // half a cell of margin on every side
+    const offsetX = (width - cell * IDENTICON_GRID) / 2;
+    const offsetY = (height - cell * IDENTICON_GRID) / 2;
+
+    const cells: string[] = [];
+    const half = Math.ceil(IDENTICON_GRID / 2);
+    for (let row = 0; row < IDENTICON_GRID; row++) {
+        for (let col = 0; col < half; col++) {
+            if (hash[4 + row * half + col] % 2 === 0) {
+                continue;
+            }
+            for (const x of new Set([col, IDENTICON_GRID - 1 - col])) {
+                cells.push(`<rect x="${offsetX + x * cell}" y="${offsetY + row * cell}" width="${cell}" height="${cell}"/>`);
+            }
+        }
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+        `<rect width="${width}" height="${height}" fill="#f0f0f0"/>` +
+        `<g fill="hsl(${hue}, ${saturation}%, ${lightness}%)" shape-rendering="crispEdges">${cells.join("")}</g></svg>`;
+}
+
+/**
+ * Silhouette: a neutral head and shoulders outline, centred in the target area
+ */
+function silhouetteSvg(width: number, height: number): string {
+    const size = Math.min(width, height);
+    const cx = width / 2;
+    const top = (height - size) / 2;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+        `<rect width="${width}" height="${height}" fill="#d5d8dc"/>` +
+        `<g fill="#9aa1a9">` +
+        `<circle cx="${cx}" cy="${top + size * 0.38}" r="${size * 0.19}"/>` +
+        `<ellipse cx="${cx}" cy="${top + size * 0.98}" rx="${size * 0.36}" ry="${size * 0.34}"/>` +
+        `</g></svg>`;
+}
+
+/**
+ * Generate a placeholder image as an SVG document of the given size
+ */
+export function fallbackSvg(kind: string, seed: string, width: number, height: number): Buffer {
+    return Buffer.from(kind === "identicon" ? identiconSvg(seed, width, height) : silhouetteSvg(width, height));
+}
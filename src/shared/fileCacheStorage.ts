@@ -0,0 +1,105 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { CacheEntryInfo, CacheStorage } from "./cacheStorage";
+
+const META_SUFFIX = ".meta.json";
+
+interface SidecarMetadata {
+    contentType?: string;
+    metadata: Record<string, string>;
+}
+
+/**
+ * Cache storage in a local directory. Each entry is a file, with its content type and
+ * metadata in a JSON sidecar file next to it.
+ */
+export class FileCacheStorage implements CacheStorage {
+    private initialized = false;
+
+    constructor(private readonly directory: string) {}
+
+    private async ensureDirectory(): Promise<void> {
+        if (!this.initialized) {
+            await fs.mkdir(this.directory, { recursive: true });
+            this.initialized = true;
+        }
+    }
+
+    private filePath(name: string): string {
+        // Entry names are generated (hash + extension), but never allow them to leave the directory
+        if (name !== path.basename(name) || name.startsWith(".")) {
+            throw new Error(`Invalid cache entry name: ${name}`);
+        }
+        return path.join(this.directory, name);
+    }
+
+    private async writeAtomic(file: string, data: Buffer | string): Promise<void> {
+        const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+        await fs.writeFile(temp, data);
+        await fs.rename(temp, file);
+    }
+
+    private async readSidecar(name: string): Promise<SidecarMetadata> {
+        try {
+            return JSON.parse(await fs.readFile(this.filePath(name) + META_SUFFIX, "utf8"));
+        } catch {
+            return { metadata: {} };
+        }
+    }
+
+    async getInfo(name: string): Promise<CacheEntryInfo | null> {
+        await this.ensureDirectory();
+        const stats = await fs.stat(this.filePath(name)).catch(() => null);
+        if (!stats) {
+            return null;
+        }
+
+        const sidecar = await this.readSidecar(name);
+        return {
+            name,
+            size: stats.size,
+            contentType: sidecar.contentType,
+            metadata: sidecar.metadata || {},
+            lastModified: stats.mtime
+        };
+    }
+
+    async read(name: string): Promise<Buffer> {
+        return fs.readFile(this.filePath(name));
+    }
+
+    async write(name: string, body: Buffer, contentType: string, metadata: Record<string, string>): Promise<void> {
+        await this.ensureDirectory();
+        await this.writeAtomic(this.filePath(name) + META_SUFFIX, JSON.stringify({ contentType, metadata }));
+        await this.writeAtomic(this.filePath(name), body);
+    }
+
+    async setMetadata(name: string, metadata: Record<string, string>): Promise<void> {
+        const sidecar = await this.readSidecar(name);
+        await this.writeAtomic(this.filePath(name) + META_SUFFIX, JSON.stringify({ ...sidecar, metadata }));
+    }
+
+    async delete(name: string): Promise<boolean> {
+        const file = this.filePath(name);
+        await fs.rm(file + META_SUFFIX, { force: true });
+        try {
+            await fs.unlink(file);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async *list(): AsyncIterable<CacheEntryInfo> {
+        await this.ensureDirectory();
+        for (const name of await fs.readdir(this.directory)) {
+            if (name.endsWith(META_SUFFIX) || name.endsWith(".tmp")) {
+                continue;
+            }
+            const info = await this.getInfo(name);
+            if (info) {
+                yield info;
+            }
+        }
+    }
+}
@@ -0,0 +1,145 @@
+export interface HtmlHead {
+    title?: string;
+    baseHref?: string;
+    meta: Record<string, string>[];
+    links: Record<string, string>[];
+    jsonLd: unknown[];
+}
+
+// Characters of a document that are scanned for metadata
+const MAX_SCAN_LENGTH = 256 * 1024;
+
+// Named character references for U+00A0 to U+00FF, in code point order
+const LATIN1_ENTITIES = (
+    "nbsp iexcl cent pound curren yen brvbar sect uml copy ordf laquo not shy reg macr " +
+    "deg plusmn sup2 sup3 acute micro para middot cedil sup1 ordm raquo frac14 frac12 frac34 iquest " +
+    "Agrave Aacute Acirc Atilde Auml Aring AElig Ccedil Egrave Eacute Ecirc Euml Igrave Iacute Icirc Iuml " +
+    "ETH Ntilde Ograve Oacute Ocirc Otilde Ouml times Oslash Ugrave Uacute Ucirc Uuml Yacute THORN szlig " +
+    "agrave aacute acirc atilde auml aring aelig ccedil egrave eacute ecirc euml igrave iacute icirc iuml " +
+    "eth ntilde ograve oacute ocirc otilde ouml divide oslash ugrave uacute ucirc uuml yacute thorn yuml"
+).split(" ");
+
+const NAMED_ENTITIES: Record<string, string> = {
+    ...Object.fromEntries(LATIN1_ENTITIES.map((name, i) => [name, String.fromCharCode(0xa0 + i)])),
+    amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'",
+    ndash: "\u2013", mdash: "\u2014", hellip: "\u2026", lsquo: "\u2018", rsquo: "\u2019",
+    ldquo: "\u201c", rdquo: "\u201d", bull: "\u2022", trade: "\u2122", euro: "\u20ac"
+};
+
+/**
+ * Decode HTML character references (numeric and the common named ones)
+ */
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (match, entity: string) => {
+        if (entity[0] === "#") {
+            const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+            return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity] ?? NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Parse the attributes of a start tag (the part after the tag name). Names are lower-cased
+ * and values entity-decoded; attributes without a value get an empty string.
+ */
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source)) !== null) {
+        const name = match[1].toLowerCase();
+        if (!(name in attributes)) {
+            attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+        }
+    }
+    return attributes;
+}
+
+/**
+ * Index just past the closing tag of a raw text element (</script>, </title>), or -1 when the
+ * element is never closed
+ */
+function findClosingTag(source: string, tag: string, from: number): number {
+    const pattern = new RegExp(`</${tag}\\s*>`, "gi");
+    pattern.lastIndex = from;
+    const match = pattern.exec(source);
+    return match ? match.index : -1;
+}
+
+/**
+ * Extract the metadata-bearing elements of an HTML document: the title, base href, meta and
+ * link tags, and JSON-LD blocks. This is a tolerant scanner rather than a full parser; it
+ * skips comments and script contents and only looks at what preview extraction needs.
+ *
+ * The scanner only moves forward, so its work is linear in the input, and it stops after the
+ * first MAX_SCAN_LENGTH characters; metadata lives near the top of a page.
+ */
+export function parseHtmlHead(html: string): HtmlHead {
+    const head: HtmlHead = { meta: [], links: [], jsonLd: [] };
+    const source = html.length > MAX_SCAN_LENGTH ? html.substring(0, MAX_SCAN_LENGTH) : html;
+    const tagName = /[a-z][a-z0-9-]*/iy;
+
+    let position = 0;
+    while (position < source.length) {
+        const open = source.indexOf("<", position);
+        if (open === -1) {
+            break;
+        }
+
+        if (source.startsWith("<!--", open)) {
+            const close = source.indexOf("-->", open + 4);
+            if (close === -1) {
+                break;
+            }
+            position = close + 3;
+            continue;
+        }
+
+        tagName.lastIndex = open + 1;
+        const name = tagName.exec(source);
+        if (!name) {
+            position = open + 1;
+            continue;
+        }
+
+        const end = source.indexOf(">", tagName.lastIndex);
+        if (end === -1) {
+            break;
+        }
+        const tag = name[0].toLowerCase();
+        const attributeSource = source.substring(tagName.lastIndex, end);
+        position = end + 1;
+
+        if (tag === "meta") {
+            head.meta.push(parseAttributes(attributeSource));
+        } else if (tag === "link") {
+            head.links.push(parseAttributes(attributeSource));
+        } else if (tag === "base") {
+            const href = parseAttributes(attributeSource).href;
+            if (!head.baseHref && href) {
+                head.baseHref = href;
+            }
+        } else if (tag === "title" || tag === "script" || tag === "style") {
+            // Raw text: nothing inside is markup, so skip to the closing tag
+            const close = findClosingTag(source, tag, position);
+            if (close === -1) {
+                break;
+            }
+            const content = source.substring(position, close);
+            position = source.indexOf(">", close) + 1;
+
+            if (tag === "title" && !("title" in head)) {
+                head.title = decodeEntities(content).replace(/\s+/g, " ").trim() || undefined;
+            } else if (tag === "script" && parseAttributes(attributeSource).type?.toLowerCase() === "application/ld+json") {
+                try {
+                    head.jsonLd.push(JSON.parse(content.trim()));
+                } catch {
+                    // Invalid JSON-LD is common in the wild; ignore the block
+                }
+            }
+        }
+    }
+
+    return head;
+}
@@ -0,0 +1,213 @@
+import { InvocationContext } from "@azure/functions";
+import * as crypto from "crypto";
+import { CacheStorage, getCacheStorage } from "./cacheStorage";
+
+export const CONTAINER_NAME = "image-cache";
+export const BROWSER_CACHE_MAX_AGE = 604800; // 7 days in seconds
+export const BLOB_CACHE_MAX_AGE_MS = 86400000; // 1 day in milliseconds
+// How long past its max age a variant may still be served while it is revalidated
+export const BLOB_CACHE_MAX_STALE_MS = parseInt(process.env.BLOB_CACHE_MAX_STALE_MS || String(30 * 86400000)); // 30 days
+
+// Last access is recorded in blob metadata for LRU eviction, at most once per this interval
+const LAST_ACCESS_RESOLUTION_MS = 3600000; // 1 hour
+
+// Optional cross-instance lease so only one instance renders a variant at a time
+const RENDER_LEASE_ENABLED = process.env.IMAGE_CACHE_RENDER_LEASE === "true";
+const RENDER_LEASE_DURATION_SECONDS = 60;
+
+// Content addressed by a verified hash never changes, so it can be kept much longer
+export const IMMUTABLE_BROWSER_CACHE_MAX_AGE = 31536000; // 1 year in seconds
+export const IMMUTABLE_BLOB_CACHE_MAX_AGE_MS = parseInt(process.env.IMMUTABLE_BLOB_CACHE_MAX_AGE_MS || String(30 * 86400000)); // 30 days
+
+/**
+ * Storage backend for the image cache (Azure Blob Storage, a local directory or memory)
+ */
+export function getImageCacheStorage(context?: InvocationContext): CacheStorage {
+    return getCacheStorage(CONTAINER_NAME, context);
+}
+
+export interface RenderLease {
+    acquired: boolean;
+    release(): Promise<void>;
+}
+
+/**
+ * Try to become the only instance rendering a variant, using a lease on "<key>.lock" in the
+ * cache storage. When leasing is disabled, unsupported by the backend or fails, the lease is
+ * reported as acquired so the caller simply renders.
+ */
+export async function acquireRenderLease(key: string, context?: InvocationContext): Promise<RenderLease> {
+    const noLease: RenderLease = { acquired: true, release: async () => undefined };
+    const storage = getImageCacheStorage(context);
+    if (!RENDER_LEASE_ENABLED || !storage.acquireLease) {
+        return noLease;
+    }
+
+    try {
+        const lease = await storage.acquireLease(`${key}.lock`, RENDER_LEASE_DURATION_SECONDS);
+        return lease ? { acquired: true, release: () => lease.release() } : { acquired: false, release: async () => undefined };
+    } catch (err) {
+        context?.warn(`Failed to acquire render lease: ${err}`);
+        return noLease;
+    }
+}
+
+/**
+ * Origin validators stored with a cached variant so it can be revalidated with a
+ * conditional request once it is stale
+ */
+export interface OriginValidators {
+    etag?: string;
+    lastModified?: string;
+}
+
+/**
+ * A cached variant. Only its properties are loaded; call read() for the body.
+ */
+export interface CachedImage {
+    stale: boolean;
+    validators: OriginValidators;
+    etag: string | null;
+    lastModified: Date;
+    size: number;
+    contentType?: string;
+    read(): Promise<Buffer>;
+}
+
+export interface CacheImageOptions {
+    contentType?: string;
+    validators?: OriginValidators;
+}
+
+/**
+ * Strong ETag for a variant, derived from its cache key and encoded bytes
+ */
+export function computeVariantETag(cacheKey: string, buffer: Buffer): string {
+    const hash = crypto.createHash("sha256").update(cacheKey).update(buffer).digest("base64url");
+    return `"${hash.substring(0, 32)}"`;
+}
+
+/**
+ * Whether an If-None-Match header matches the given ETag
+ */
+export function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+    if (!ifNoneMatch) {
+        return false;
+    }
+    return ifNoneMatch.split(",").some(candidate => {
+        const value = candidate.trim();
+        return value === "*" || value.replace(/^W\//, "") === etag;
+    });
+}
+
+/**
+ * Blob metadata for a cache entry. Metadata values must be ASCII, so validators are URI-encoded.
+ */
+function toBlobMetadata(validators: OriginValidators = {}, existing: Record<string, string> = {}): Record<string, string> {
+    const metadata: Record<string, string> = { ...existing, cachedat: Date.now().toString() };
+    delete metadata.originetag;
+    delete metadata.originlastmodified;
+    if (validators.etag) metadata.originetag = encodeURIComponent(validators.etag);
+    if (validators.lastModified) metadata.originlastmodified = encodeURIComponent(validators.lastModified);
+    return metadata;
+}
+
+function fromBlobMetadata(metadata: Record<string, string> = {}): OriginValidators {
+    return {
+        etag: metadata.originetag ? decodeURIComponent(metadata.originetag) : undefined,
+        lastModified: metadata.originlastmodified ? decodeURIComponent(metadata.originlastmodified) : undefined
+    };
+}
+
+/**
+ * When a blob was last served, for least-recently-used eviction. Falls back to when it was cached.
+ */
+export function getLastAccess(metadata: Record<string, string> = {}, lastModified?: Date): number {
+    return parseInt(metadata.lastaccess || "") || parseInt(metadata.cachedat || "") || lastModified?.getTime() || 0;
+}
+
+/**
+ * Record that a blob was served. Updates are throttled to LAST_ACCESS_RESOLUTION_MS and don't
+ * block the response; a lost update only makes the blob look slightly older to the sweeper.
+ */
+function recordAccess(storage: CacheStorage, name: string, metadata: Record<string, string> = {}, context?: InvocationContext): void {
+    if (Date.now() - getLastAccess(metadata) < LAST_ACCESS_RESOLUTION_MS) {
+        return;
+    }
+    storage.setMetadata(name, { ...metadata, lastaccess: Date.now().toString() }).catch(err => {
+        context?.warn(`Failed to record cache access: ${err}`);
+    });
+}
+
+/**
+ * Get a cached variant. Entries older than maxAgeMs are returned as stale so they can be
+ * served while being revalidated; entries older than maxAgeMs + BLOB_CACHE_MAX_STALE_MS
+ * are deleted and treated as a miss.
+ */
+export async function getCachedImage(cacheKey: string, format: string, context?: InvocationContext, maxAgeMs: number = BLOB_CACHE_MAX_AGE_MS): Promise<CachedImage | null> {
+    try {
+        const storage = getImageCacheStorage(context);
+        const blobName = `${cacheKey}.${format}`;
+        
+        // Check if blob exists and get properties to check age
+        const info = await storage.getInfo(blobName);
+        if (!info) {
+            return null;
+        }
+
+        // Age is measured from the last (re)validation, falling back to the blob's modification time
+        const cachedAt = parseInt(info.metadata.cachedat || "") || info.lastModified.getTime();
+        const age = Date.now() - cachedAt;
+        if (age > maxAgeMs + BLOB_CACHE_MAX_STALE_MS) {
+            // Too old to serve even while revalidating, delete old blob and return null
+            await storage.delete(blobName);
+            return null;
+        }
+
+        recordAccess(storage, blobName, info.metadata, context);
+        const renderedAt = parseInt(info.metadata.renderedat || "");
+
+        return {
+            stale: age > maxAgeMs,
+            validators: fromBlobMetadata(info.metadata),
+            etag: info.metadata.variantetag ? decodeURIComponent(info.metadata.variantetag) : null,
+            lastModified: renderedAt ? new Date(renderedAt) : info.lastModified,
+            size: info.size,
+            contentType: info.contentType,
+            read: () => storage.read(blobName)
+        };
+    } catch (err) {
+        context?.error(`Failed to get cached image: ${err}`);
+        return null;
+    }
+}
+
+export async function cacheImage(cacheKey: string, format: string, buffer: Buffer, context?: InvocationContext, options: CacheImageOptions = {}): Promise<void> {
+    try {
+        const storage = getImageCacheStorage(context);
+        const blobName = `${cacheKey}.${format}`;
+
+        await storage.write(blobName, buffer, options.contentType || `image/${format}`, toBlobMetadata(options.validators, {
+            variantetag: encodeURIComponent(computeVariantETag(cacheKey, buffer)),
+            renderedat: Date.now().toString()
+        }));
+    } catch (err) {
+        context?.error(`Failed to cache image: ${err}`);
+    }
+}
+
+/**
+ * Mark a cached variant as fresh again without re-uploading it (origin answered 304)
+ */
+export async function touchCachedImage(cacheKey: string, format: string, validators: OriginValidators, context?: InvocationContext): Promise<void> {
+    try {
+        const storage = getImageCacheStorage(context);
+        const blobName = `${cacheKey}.${format}`;
+        const info = await storage.getInfo(blobName);
+        if (info) {
+            await storage.setMetadata(blobName, toBlobMetadata(validators, info.metadata));
+        }
+    } catch (err) {
+        context?.error(`Failed to refresh cached image: ${err}`);
+    }
+}
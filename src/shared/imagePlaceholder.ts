@@ -0,0 +1,73 @@
+import { encode as encodeBlurhash } from "blurhash";
+import sharp = require("sharp");
+import { MAX_INPUT_PIXELS } from "./imageSource";
+import { rgbaToThumbHash } from "./thumbhash";
+
+const BLURHASH_SIZE = 32;
+const BLURHASH_COMPONENTS_X = 4;
+const BLURHASH_COMPONENTS_Y = 3;
+const THUMBHASH_SIZE = 100; // ThumbHash only accepts images up to 100x100
+const LQIP_SIZE = 16;
+
+export interface ImagePlaceholder {
+    width: number;
+    height: number;
+    blurhash: string;
+    thumbhash: string;
+    dominantColor: string;
+    lqip: string;
+}
+
+/**
+ * Open an image for decoding, refusing images over MAX_INPUT_PIXELS (decompression bombs)
+ */
+function decode(source: Buffer): sharp.Sharp {
+    return sharp(source, { limitInputPixels: MAX_INPUT_PIXELS });
+}
+
+/**
+ * Decode the first frame of an image into raw RGBA pixels that fit within size x size
+ */
+async function toRgba(source: Buffer, size: number): Promise<{ data: Buffer; info: sharp.OutputInfo }> {
+    return decode(source)
+        .rotate()
+        .resize({ width: size, height: size, fit: "inside" })
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+}
+
+/**
+ * Compute the blurhash string for an image
+ */
+export async function computeBlurhash(source: Buffer): Promise<string> {
+    const { data, info } = await toRgba(source, BLURHASH_SIZE);
+    return encodeBlurhash(new Uint8ClampedArray(data), info.width, info.height, BLURHASH_COMPONENTS_X, BLURHASH_COMPONENTS_Y);
+}
+
+/**
+ * Compute all placeholder representations for an image: blurhash, ThumbHash (base64),
+ * dominant colour and a tiny base64 WebP data URI (LQIP)
+ */
+export async function computePlaceholder(source: Buffer): Promise<ImagePlaceholder> {
+    const metadata = await decode(source).metadata();
+    const thumb = await toRgba(source, THUMBHASH_SIZE);
+    const stats = await decode(source).stats();
+    const lqip = await decode(source)
+        .rotate()
+        .resize({ width: LQIP_SIZE, height: LQIP_SIZE, fit: "inside" })
+        .webp({ quality: 50 })
+        .toBuffer();
+
+    const { r, g, b } = stats.dominant;
+    const swapped = (metadata.orientation || 1) >= 5; // EXIF orientations 5-8 rotate by 90 degrees
+
+    return {
+        width: swapped ? metadata.height : metadata.width,
+        height: swapped ? metadata.width : metadata.height,
+        blurhash: await computeBlurhash(source),
+        thumbhash: Buffer.from(rgbaToThumbHash(thumb.info.width, thumb.info.height, thumb.data)).toString("base64"),
+        dominantColor: `#${[r, g, b].map(c => c.toString(16).padStart(2, "0")).join("")}`,
+        lqip: `data:image/webp;base64,${lqip.toString("base64")}`
+    };
+}
@@ -0,0 +1,229 @@
+import { HttpResponseInit } from "@azure/functions";
+import axios, { AxiosRequestConfig } from "axios";
+import { IncomingMessage } from "http";
+import sharp = require("sharp");
+import { OriginValidators } from "./imageCache";
+import { isImageMimeType, sniffMimeType, SNIFF_LENGTH } from "./mimeSniff";
+import { safeGet } from "./urlPolicy";
+
+const MAX_SOURCE_BYTES = parseInt(process.env.IMAGE_SOURCE_MAX_BYTES || String(25 * 1024 * 1024)); // 25MB
+const SOURCE_TIMEOUT_MS = parseInt(process.env.IMAGE_SOURCE_TIMEOUT_MS || "15000");
+export const MAX_INPUT_PIXELS = parseInt(process.env.IMAGE_MAX_INPUT_PIXELS || "100000000"); // width * height of the decoded image
+
+export interface ImageSource {
+    buffer: Buffer;
+    validators: OriginValidators;
+    mimeType: string;
+}
+
+/**
+ * Thrown when a source image can't be used: too large, too slow, not an image or not
+ * decodable. Carries the HTTP status the proxy should answer with.
+ */
+export class ImageSourceError extends Error {
+    constructor(message: string, public readonly status: number, public readonly url?: string) {
+        super(message);
+        this.name = "ImageSourceError";
+    }
+}
+
+function validatorsFromHeaders(headers: Record<string, any>): OriginValidators {
+    return {
+        etag: headers["etag"] || undefined,
+        lastModified: headers["last-modified"] || undefined
+    };
+}
+
+/**
+ * Check that a downloaded payload is an image by its magic bytes. SVG is rejected: the
+ * rasterizer can't be told to stay inside the document, and scrubbing the markup for
+ * external references is too easy to get wrong.
+ */
+export function checkImagePayload(buffer: Buffer, url?: string): { buffer: Buffer; mimeType: string } {
+    const mimeType = sniffMimeType(buffer.subarray(0, SNIFF_LENGTH));
+    if (!isImageMimeType(mimeType)) {
+        throw new ImageSourceError(`Source is not an image (detected ${mimeType || "unknown content"})`, 415, url);
+    }
+
+    if (mimeType === "image/svg+xml") {
+        throw new ImageSourceError("SVG sources are not accepted", 415, url);
+    }
+
+    return { buffer, mimeType };
+}
+
+/**
+ * Byte and time budget for a download. timeoutMs bounds the whole transfer, so a body that
+ * trickles in slowly is cut off as well.
+ */
+export interface TransferLimits {
+    maxBytes: number;
+    timeoutMs: number;
+}
+
+const SOURCE_LIMITS: TransferLimits = { maxBytes: MAX_SOURCE_BYTES, timeoutMs: SOURCE_TIMEOUT_MS };
+
+/**
+ * Stream a body through the outbound URL policy, handing each chunk to onChunk. The transfer
+ * is aborted with a 413 ImageSourceError once it exceeds limits.maxBytes, and with a 504 one
+ * when it takes longer than limits.timeoutMs.
+ */
+export async function streamDownload(
+    url: string,
+    onChunk: (chunk: Buffer) => void,
+    limits: TransferLimits = SOURCE_LIMITS,
+    config: AxiosRequestConfig = {}
+): Promise<{ status: number; headers: Record<string, any> }> {
+    const controller = new AbortController();
+    let stream: IncomingMessage | undefined;
+    const timer = setTimeout(() => {
+        controller.abort();
+        stream?.destroy();
+    }, limits.timeoutMs);
+
+    try {
+        const response = await safeGet<IncomingMessage>(url, {
+            ...config,
+            responseType: "stream",
+            timeout: limits.timeoutMs,
+            signal: controller.signal
+        });
+
+        stream = response.data;
+        const declaredLength = parseInt(response.headers["content-length"]);
+        if (declaredLength > limits.maxBytes) {
+            stream.destroy();
+            throw new ImageSourceError(`Source exceeds ${limits.maxBytes} bytes`, 413, url);
+        }
+
+        let size = 0;
+        for await (const chunk of stream) {
+            size += chunk.length;
+            if (size > limits.maxBytes) {
+                stream.destroy();
+                throw new ImageSourceError(`Source exceeds ${limits.maxBytes} bytes`, 413, url);
+            }
+            onChunk(Buffer.from(chunk));
+        }
+        if (controller.signal.aborted) {
+            throw new Error("Source transfer aborted");
+        }
+
+        return { status: response.status, headers: response.headers };
+    } catch (err) {
+        if (controller.signal.aborted || (axios.isAxiosError(err) && err.code === "ECONNABORTED")) {
+            throw new ImageSourceError(`Source did not respond within ${limits.timeoutMs}ms`, 504, url);
+        }
+        throw err;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Download a body through the outbound URL policy within MAX_SOURCE_BYTES and
+ * SOURCE_TIMEOUT_MS
+ */
+async function download(url: string, config: AxiosRequestConfig = {}) {
+    const chunks: Buffer[] = [];
+    const response = await streamDownload(url, chunk => chunks.push(chunk), SOURCE_LIMITS, config);
+    return { ...response, buffer: Buffer.concat(chunks) };
+}
+
+/**
+ * Download a source through the outbound URL policy and within the size and time limits,
+ * without checking what it contains
+ */
+export async function fetchSourceBytes(url: string): Promise<{ buffer: Buffer; validators: OriginValidators }> {
+    const response = await download(url);
+    return { buffer: response.buffer, validators: validatorsFromHeaders(response.headers) };
+}
+
+/**
+ * Download a source image through the outbound URL policy
+ */
+export async function fetchImageSource(url: string): Promise<ImageSource> {
+    const { buffer, validators } = await fetchSourceBytes(url);
+    return { ...checkImagePayload(buffer, url), validators };
+}
+
+/**
+ * Read the metadata of a source image (every frame of animations). Images that sharp can't
+ * decode or that exceed MAX_INPUT_PIXELS are rejected with 422.
+ */
+export async function readImageMetadata(buffer: Buffer, url?: string): Promise<sharp.Metadata> {
+    let metadata: sharp.Metadata;
+    try {
+        metadata = await sharp(buffer, { animated: true, limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+    } catch (err) {
+        if (/pixel limit/i.test(err.message)) {
+            throw new ImageSourceError(`Source image exceeds ${MAX_INPUT_PIXELS} pixels`, 422, url);
+        }
+        throw new ImageSourceError(`Source image could not be decoded: ${err.message || err}`, 422, url);
+    }
+
+    const frameHeight = metadata.pageHeight || metadata.height || 0;
+    if ((metadata.width || 0) * frameHeight > MAX_INPUT_PIXELS) {
+        throw new ImageSourceError(`Source image exceeds ${MAX_INPUT_PIXELS} pixels`, 422, url);
+    }
+
+    return metadata;
+}
+
+/**
+ * Revalidate a source image with a conditional request. Returns null when the origin
+ * answers 304 Not Modified, otherwise the new content.
+ */
+export async function revalidateImageSource(url: string, validators: OriginValidators): Promise<ImageSource | null> {
+    const headers: Record<string, string> = {};
+    if (validators.etag) headers["If-None-Match"] = validators.etag;
+    if (validators.lastModified) headers["If-Modified-Since"] = validators.lastModified;
+
+    const response = await download(url, {
+        headers,
+        validateStatus: (status) => (status >= 200 && status < 300) || status === 304
+    });
+
+    if (response.status === 304) {
+        return null;
+    }
+
+    return {
+        ...checkImagePayload(response.buffer, url),
+        validators: validatorsFromHeaders(response.headers)
+    };
+}
+
+/**
+ * Response for a source image that was rejected or could not be fetched. Origin failures
+ * map to 502, timeouts to 504 and rejected payloads to their own 4xx status. Returns null for
+ * errors that aren't about the source.
+ */
+export function imageSourceErrorResponse(err: unknown): HttpResponseInit | null {
+    if (err instanceof ImageSourceError) {
+        return {
+            status: err.status,
+            headers: { "Content-Type": "application/json" },
+            jsonBody: { error: err.message, url: err.url }
+        };
+    }
+
+    // Frames beyond the metadata check can still trip sharp's own limit while rendering
+    if (err instanceof Error && /pixel limit/i.test(err.message)) {
+        return {
+            status: 422,
+            headers: { "Content-Type": "application/json" },
+            jsonBody: { error: `Source image exceeds ${MAX_INPUT_PIXELS} pixels` }
+        };
+    }
+
+    if (axios.isAxiosError(err)) {
+        return {
+            status: 502,
+            headers: { "Content-Type": "application/json" },
+            jsonBody: { error: "Failed to fetch source image", message: err.message, status: err.response?.status }
+        };
+    }
+
+    return null;
+}
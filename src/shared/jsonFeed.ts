@@ -0,0 +1,466 @@
+import axios from "axios";
+import { decodeEntities } from "./htmlHead";
+import { safeGet } from "./urlPolicy";
+import { childElement, childElements, childText, parseXml, XmlElement, XmlParseError } from "./xml";
+
+const MAX_FEED_BYTES = parseInt(process.env.FEED_MAX_BYTES || String(10 * 1024 * 1024)); // 10MB
+const REQUEST_TIMEOUT = 15000; // 15 seconds
+const USER_AGENT = "Mozilla/5.0 (compatible; nostria-proxy/1.0; +feed)";
+
+export const JSON_FEED_VERSION = "https://jsonfeed.org/version/1.1";
+
+// Namespace URIs by vocabulary. Unbound prefixes resolve to the prefix itself, so the usual
+// prefix is accepted too for feeds that forget to declare it.
+const NONE = [""];
+const ATOM = ["http://www.w3.org/2005/Atom", "http://purl.org/atom/ns#", "atom"];
+const RSS1 = ["http://purl.org/rss/1.0/"];
+const RDF = ["http://www.w3.org/1999/02/22-rdf-syntax-ns#", "rdf"];
+const DC = ["http://purl.org/dc/elements/1.1/", "dc"];
+const CONTENT = ["http://purl.org/rss/1.0/modules/content/", "content"];
+const ITUNES = ["http://www.itunes.com/dtds/podcast-1.0.dtd", "itunes"];
+const MEDIA = ["http://search.yahoo.com/mrss/", "media"];
+const PODCAST = ["https://podcastindex.org/namespace/1.0", "https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md", "podcast"];
+
+export interface JsonFeedAuthor {
+    name?: string;
+    url?: string;
+    avatar?: string;
+}
+
+export interface JsonFeedAttachment {
+    url: string;
+    mime_type: string;
+    title?: string;
+    size_in_bytes?: number;
+    duration_in_seconds?: number;
+}
+
+export interface PodcastValueRecipient {
+    name?: string;
+    type: string;
+    address: string;
+    split: number;
+    customKey?: string;
+    customValue?: string;
+    fee?: boolean;
+}
+
+export interface PodcastValue {
+    type: string;
+    method: string;
+    suggested?: string;
+    recipients: PodcastValueRecipient[];
+}
+
+/**
+ * Podcasting 2.0 elements (https://podcastindex.org/namespace/1.0), kept as the _podcast
+ * JSON Feed extension on the feed and on items
+ */
+export interface PodcastExtension {
+    guid?: string;
+    value?: PodcastValue[];
+    chapters?: { url: string; type: string };
+    transcripts?: { url: string; type: string; language?: string; rel?: string }[];
+}
+
+export interface JsonFeedItem {
+    id: string;
+    url?: string;
+    title?: string;
+    content_html?: string;
+    content_text?: string;
+    summary?: string;
+    image?: string;
+    date_published?: string;
+    date_modified?: string;
+    authors?: JsonFeedAuthor[];
+    tags?: string[];
+    attachments?: JsonFeedAttachment[];
+    _podcast?: PodcastExtension;
+}
+
+/**
+ * JSON Feed 1.1 document (https://jsonfeed.org/version/1.1)
+ */
+export interface JsonFeed {
+    version: string;
+    title: string;
+    home_page_url?: string;
+    feed_url?: string;
+    description?: string;
+    icon?: string;
+    favicon?: string;
+    authors?: JsonFeedAuthor[];
+    language?: string;
+    items: JsonFeedItem[];
+    _podcast?: PodcastExtension;
+}
+
+/**
+ * Thrown when a feed can't be fetched or is not an RSS 2.0, RSS 1.0 (RDF) or Atom document.
+ * Carries the HTTP status to answer with.
+ */
+export class FeedError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = "FeedError";
+    }
+}
+
+function resolveUrl(value: string | undefined, base: string): string | undefined {
+    if (!value) {
+        return undefined;
+    }
+    try {
+        return new URL(value.trim(), base).toString();
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Normalize a feed date (RFC 822 in RSS, RFC 3339 in Atom and Dublin Core) to ISO-8601
+ */
+export function toIsoDate(value: string | undefined): string | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const date = new Date(value.trim());
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * iTunes durations are seconds, MM:SS or HH:MM:SS
+ */
+function parseDuration(value: string | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const seconds = value.trim().split(":").reduce((total, part) => total * 60 + parseFloat(part), 0);
+    return seconds > 0 ? Math.round(seconds) : undefined;
+}
+
+function toPositiveInteger(value: string | undefined): number | undefined {
+    const number = parseInt(value || "");
+    return number > 0 ? number : undefined;
+}
+
+function stripTags(html: string): string {
+    return decodeEntities(html.replace(/<[^>]*>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+function withoutEmpty<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, field]) =>
+        field !== undefined && field !== "" && !(Array.isArray(field) && field.length === 0))) as T;
+}
+
+/**
+ * An RSS author: "email (Name)", "Name <email>" or just a name
+ */
+function parseRssAuthor(value: string): JsonFeedAuthor {
+    const parenthesized = /^\S+@\S+\s*\((.+)\)$/.exec(value);
+    const angled = /^(.+?)\s*<\S+@\S+>$/.exec(value);
+    return { name: (parenthesized?.[1] || angled?.[1] || value).trim() };
+}
+
+function parsePodcastExtension(element: XmlElement, base: string): PodcastExtension | undefined {
+    const value = childElements(element, "value", PODCAST).map(block => ({
+        type: block.attributes.type,
+        method: block.attributes.method,
+        suggested: block.attributes.suggested,
+        recipients: childElements(block, "valueRecipient", PODCAST).map(recipient => withoutEmpty({
+            name: recipient.attributes.name,
+            type: recipient.attributes.type,
+            address: recipient.attributes.address,
+            split: parseFloat(recipient.attributes.split) || 0,
+            customKey: recipient.attributes.customKey,
+            customValue: recipient.attributes.customValue,
+            fee: recipient.attributes.fee === "true" ? true : undefined
+        }))
+    })).map(withoutEmpty);
+
+    const chapters = childElement(element, "chapters", PODCAST);
+    const transcripts = childElements(element, "transcript", PODCAST)
+        .map(transcript => withoutEmpty({
+            url: resolveUrl(transcript.attributes.url, base),
+            type: transcript.attributes.type,
+            language: transcript.attributes.language,
+            rel: transcript.attributes.rel
+        }))
+        .filter(transcript => transcript.url);
+
+    const extension = withoutEmpty<PodcastExtension>({
+        guid: childText(element, "guid", PODCAST),
+        value,
+        chapters: chapters?.attributes.url ? { url: resolveUrl(chapters.attributes.url, base), type: chapters.attributes.type } : undefined,
+        transcripts
+    });
+    return Object.keys(extension).length > 0 ? extension : undefined;
+}
+
+/**
+ * Enclosures and Media RSS content of an RSS item, without duplicates
+ */
+function parseRssAttachments(item: XmlElement, base: string): JsonFeedAttachment[] {
+    const duration = parseDuration(childText(item, "duration", ITUNES));
+    const attachments: JsonFeedAttachment[] = [];
+    const add = (attachment: JsonFeedAttachment) => {
+        if (attachment.url && !attachments.some(existing => existing.url === attachment.url)) {
+            attachments.push(withoutEmpty(attachment));
+        }
+    };
+
+    for (const enclosure of childElements(item, "enclosure", NONE)) {
+        add({
+            url: resolveUrl(enclosure.attributes.url, base),
+            mime_type: enclosure.attributes.type || "application/octet-stream",
+            size_in_bytes: toPositiveInteger(enclosure.attributes.length),
+            duration_in_seconds: duration
+        });
+    }
+
+    const groups = [item, ...childElements(item, "group", MEDIA)];
+    for (const content of groups.flatMap(group => childElements(group, "content", MEDIA))) {
+        if (content.attributes.medium === "image") {
+            continue;
+        }
+        add({
+            url: resolveUrl(content.attributes.url, base),
+            mime_type: content.attributes.type || "application/octet-stream",
+            size_in_bytes: toPositiveInteger(content.attributes.fileSize),
+            duration_in_seconds: toPositiveInteger(content.attributes.duration)
+        });
+    }
+
+    return attachments;
+}
+
+function parseRssItem(item: XmlElement, base: string): JsonFeedItem {
+    const guid = childText(item, "guid", NONE);
+    const permaLink = guid && childElement(item, "guid", NONE).attributes.isPermaLink !== "false" && /^https?:\/\//i.test(guid) ? guid : undefined;
+    const url = resolveUrl(childText(item, "link", [...NONE, ...RSS1]) || permaLink || item.attributes["rdf:about"], base);
+    const title = childText(item, "title", [...NONE, ...RSS1, ...DC]);
+    const description = childText(item, "description", [...NONE, ...RSS1, ...DC]);
+    const encoded = childText(item, "encoded", CONTENT);
+    const datePublished = childText(item, "pubDate", NONE) || childText(item, "date", DC);
+
+    const authors = [
+        ...childElements(item, "author", NONE).map(author => parseRssAuthor(author.text.trim())),
+        ...childElements(item, "creator", DC).map(creator => ({ name: creator.text.trim() }))
+    ].filter(author => author.name);
+    const itunesAuthor = childText(item, "author", ITUNES);
+
+    const image = childElement(item, "image", ITUNES)?.attributes.href
+        || childElement(item, "thumbnail", MEDIA)?.attributes.url
+        || childElements(item, "content", MEDIA).find(content => content.attributes.medium === "image")?.attributes.url;
+
+    return withoutEmpty<JsonFeedItem>({
+        id: guid || url || `${title || ""}|${datePublished || ""}`,
+        url,
+        title: title ? stripTags(title) : undefined,
+        content_html: encoded || description,
+        summary: encoded && description ? stripTags(description) : undefined,
+        image: resolveUrl(image, base),
+        date_published: toIsoDate(datePublished),
+        date_modified: toIsoDate(childText(item, "modified", DC)),
+        authors: authors.length > 0 ? authors : itunesAuthor ? [{ name: itunesAuthor }] : undefined,
+        tags: [
+            ...childElements(item, "category", NONE).map(category => category.text.trim()),
+            ...childElements(item, "subject", DC).map(subject => subject.text.trim())
+        ].filter(Boolean),
+        attachments: parseRssAttachments(item, base),
+        _podcast: parsePodcastExtension(item, base)
+    });
+}
+
+/**
+ * RSS 2.0 (and 0.9x) with the items inside the channel, or RSS 1.0 (RDF) with the items
+ * next to it
+ */
+function parseRss(root: XmlElement, feedUrl: string): JsonFeed {
+    const channel = childElement(root, "channel", [...NONE, ...RSS1]);
+    if (!channel) {
+        throw new FeedError("RSS document has no channel", 422);
+    }
+
+    const items = root.local === "RDF" ? childElements(root, "item", RSS1) : childElements(channel, "item", NONE);
+    const selfLink = childElements(channel, "link", ATOM).find(link => link.attributes.rel === "self")?.attributes.href;
+    const base = resolveUrl(selfLink, feedUrl) || feedUrl;
+    const author = childText(channel, "author", ITUNES) || childText(channel, "creator", DC) || childText(channel, "managingEditor", NONE);
+    const image = childElement(channel, "image", ITUNES)?.attributes.href
+        || childText(childElement(channel, "image", [...NONE, ...RSS1]) || channel, "url", [...NONE, ...RSS1]);
+
+    return withoutEmpty<JsonFeed>({
+        version: JSON_FEED_VERSION,
+        title: stripTags(childText(channel, "title", [...NONE, ...RSS1, ...DC]) || ""),
+        home_page_url: resolveUrl(childText(channel, "link", [...NONE, ...RSS1]), base),
+        feed_url: base,
+        description: childText(channel, "description", [...NONE, ...RSS1, ...DC]),
+        icon: resolveUrl(image, base),
+        authors: author ? [parseRssAuthor(author)] : undefined,
+        language: childText(channel, "language", [...NONE, ...DC]),
+        items: items.map(item => parseRssItem(item, base)),
+        _podcast: parsePodcastExtension(channel, base)
+    });
+}
+
+/**
+ * Text of an Atom text construct. HTML and XHTML are returned as markup, plain text as is.
+ */
+function atomText(element: XmlElement | undefined): { html?: string; text?: string } {
+    if (!element) {
+        return {};
+    }
+    const type = (element.attributes.type || "text").toLowerCase();
+    if (type === "xhtml") {
+        const div = childElement(element, "div");
+        return { html: (div ? div.inner : element.inner).trim() || undefined };
+    }
+    if (type === "html" || type === "text/html") {
+        return { html: element.text.trim() || undefined };
+    }
+    return { text: element.text.trim() || undefined };
+}
+
+function atomLink(element: XmlElement, rel: string, base: string): string | undefined {
+    const link = childElements(element, "link", ATOM).find(candidate => (candidate.attributes.rel || "alternate") === rel);
+    return resolveUrl(link?.attributes.href, base);
+}
+
+function parseAtomAuthors(element: XmlElement, base: string): JsonFeedAuthor[] {
+    return childElements(element, "author", ATOM)
+        .map(author => withoutEmpty({ name: childText(author, "name", ATOM), url: resolveUrl(childText(author, "uri", ATOM) || childText(author, "url", ATOM), base) }))
+        .filter(author => author.name || author.url);
+}
+
+function parseAtomEntry(entry: XmlElement, base: string): JsonFeedItem {
+    const content = atomText(childElement(entry, "content", ATOM));
+    const summary = atomText(childElement(entry, "summary", ATOM));
+    const title = atomText(childElement(entry, "title", ATOM));
+    const url = atomLink(entry, "alternate", base);
+    const published = childText(entry, "published", ATOM) || childText(entry, "issued", ATOM);
+    const updated = childText(entry, "updated", ATOM) || childText(entry, "modified", ATOM);
+
+    const attachments = childElements(entry, "link", ATOM)
+        .filter(link => link.attributes.rel === "enclosure" && link.attributes.href)
+        .map(link => withoutEmpty<JsonFeedAttachment>({
+            url: resolveUrl(link.attributes.href, base),
+            mime_type: link.attributes.type || "application/octet-stream",
+            title: link.attributes.title,
+            size_in_bytes: toPositiveInteger(link.attributes.length)
+        }));
+
+    return withoutEmpty<JsonFeedItem>({
+        id: childText(entry, "id", ATOM) || url || `${title.text || title.html || ""}|${updated || ""}`,
+        url,
+        title: title.html ? stripTags(title.html) : title.text,
+        content_html: content.html || (!content.text ? summary.html : undefined),
+        content_text: content.text || (!content.html ? summary.text : undefined),
+        summary: content.html || content.text ? summary.text || (summary.html ? stripTags(summary.html) : undefined) : undefined,
+        image: resolveUrl(childElement(entry, "thumbnail", MEDIA)?.attributes.url, base),
+        date_published: toIsoDate(published || updated),
+        date_modified: toIsoDate(updated),
+        authors: parseAtomAuthors(entry, base),
+        tags: childElements(entry, "category", ATOM).map(category => category.attributes.label || category.attributes.term).filter(Boolean),
+        attachments,
+        _podcast: parsePodcastExtension(entry, base)
+    });
+}
+
+function parseAtom(root: XmlElement, feedUrl: string): JsonFeed {
+    const base = atomLink(root, "self", feedUrl) || feedUrl;
+    const title = atomText(childElement(root, "title", ATOM));
+    const subtitle = atomText(childElement(root, "subtitle", ATOM) || childElement(root, "tagline", ATOM));
+
+    return withoutEmpty<JsonFeed>({
+        version: JSON_FEED_VERSION,
+        title: title.html ? stripTags(title.html) : title.text || "",
+        home_page_url: atomLink(root, "alternate", base),
+        feed_url: base,
+        description: subtitle.text || (subtitle.html ? stripTags(subtitle.html) : undefined),
+        icon: resolveUrl(childText(root, "logo", ATOM), base),
+        favicon: resolveUrl(childText(root, "icon", ATOM), base),
+        authors: parseAtomAuthors(root, base),
+        language: root.attributes["xml:lang"],
+        items: childElements(root, "entry", ATOM).map(entry => parseAtomEntry(entry, base)),
+        _podcast: parsePodcastExtension(root, base)
+    });
+}
+
+/**
+ * Convert an RSS 2.0, RSS 1.0 (RDF) or Atom document into a JSON Feed 1.1 document. Relative
+ * URLs resolve against the feed's self link or, failing that, the URL it was fetched from.
+ */
+export function parseFeed(xml: string, feedUrl: string): JsonFeed {
+    let root: XmlElement;
+    try {
+        root = parseXml(xml);
+    } catch (err) {
+        if (err instanceof XmlParseError) {
+            throw new FeedError(`Feed is not well-formed: ${err.message}`, 422);
+        }
+        throw err;
+    }
+
+    if (root.local === "rss" || (root.local === "RDF" && RDF.includes(root.namespace))) {
+        return parseRss(root, feedUrl);
+    }
+    if (root.local === "feed" && ATOM.includes(root.namespace)) {
+        return parseAtom(root, feedUrl);
+    }
+    throw new FeedError(`Not an RSS or Atom feed (root element <${root.name}>)`, 422);
+}
+
+/**
+ * Character set of a feed, from the Content-Type header or the XML declaration
+ */
+function detectCharset(contentType: string, body: Buffer): string {
+    const declared = /charset\s*=\s*["']?([\w-]+)/i.exec(contentType)
+        || /^\s*<\?xml[^>]+encoding\s*=\s*["']([\w-]+)/i.exec(body.subarray(0, 1024).toString("latin1"));
+    return declared ? declared[1].toLowerCase() : "utf-8";
+}
+
+/**
+ * Fetch a feed through the outbound URL policy and convert it to JSON Feed. Feeds larger than
+ * FEED_MAX_BYTES are rejected.
+ */
+export async function fetchFeed(url: string): Promise<JsonFeed> {
+    let response;
+    try {
+        response = await safeGet<ArrayBuffer>(url, {
+            responseType: "arraybuffer",
+            timeout: REQUEST_TIMEOUT,
+            maxContentLength: MAX_FEED_BYTES,
+            headers: {
+                "Accept": "application/rss+xml, application/atom+xml, application/rdf+xml;q=0.9, application/xml;q=0.8, text/xml;q=0.8, */*;q=0.5",
+                "User-Agent": USER_AGENT
+            }
+        });
+    } catch (err) {
+        if (axios.isAxiosError(err)) {
+            if (err.message.includes("maxContentLength")) {
+                throw new FeedError(`Feed exceeds ${MAX_FEED_BYTES} bytes`, 413);
+            }
+            throw new FeedError(
+                err.code === "ECONNABORTED" ? "Feed did not respond in time" : `Failed to fetch feed: ${err.message}`,
+                err.code === "ECONNABORTED" ? 504 : 502
+            );
+        }
+        if (err.code === "ENOTFOUND" || err.code === "EAI_AGAIN") {
+            throw new FeedError("Could not resolve host", 502);
+        }
+        throw err;
+    }
+
+    const body = Buffer.from(response.data);
+    const contentType = String(response.headers["content-type"] || "");
+    let xml: string;
+    try {
+        xml = new TextDecoder(detectCharset(contentType, body)).decode(body);
+    } catch {
+        xml = body.toString("utf8");
+    }
+
+    // Redirects are followed, so relative URLs resolve against the last hop
+    return parseFeed(xml, response.config.url || url);
+}
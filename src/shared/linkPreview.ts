@@ -0,0 +1,331 @@
+import axios from "axios";
+import { HtmlHead, parseHtmlHead } from "./htmlHead";
+import { safeGet } from "./urlPolicy";
+
+const MAX_HTML_BYTES = parseInt(process.env.LINK_PREVIEW_MAX_BYTES || String(1024 * 1024)); // 1MB
+const REQUEST_TIMEOUT = 10000; // 10 seconds
+const MAX_IMAGES = 10;
+const USER_AGENT = "Mozilla/5.0 (compatible; nostria-proxy/1.0; +link-preview)";
+
+export interface PreviewImage {
+    url: string;
+    width?: number;
+    height?: number;
+    alt?: string;
+    type?: string;
+    proxyUrl?: string;
+}
+
+export interface PreviewVideo {
+    url: string;
+    width?: number;
+    height?: number;
+    type?: string;
+}
+
+/**
+ * Normalized preview of a page, merged from Open Graph, Twitter Card, JSON-LD and plain HTML
+ * metadata (in that order of precedence). All URLs are absolute.
+ */
+export interface LinkPreview {
+    url: string;
+    title?: string;
+    description?: string;
+    siteName?: string;
+    type?: string;
+    author?: string;
+    publishedTime?: string;
+    locale?: string;
+    themeColor?: string;
+    favicon?: string;
+    twitterCard?: string;
+    images: PreviewImage[];
+    video?: PreviewVideo;
+}
+
+/**
+ * Thrown when a page can't be previewed. Carries the HTTP status to answer with.
+ */
+export class LinkPreviewError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = "LinkPreviewError";
+    }
+}
+
+/**
+ * Resolve a possibly relative URL against the page. Only http(s) URLs are kept.
+ */
+function absolutize(value: string | undefined, base: string): string | undefined {
+    if (!value) {
+        return undefined;
+    }
+    try {
+        const url = new URL(value.trim(), base);
+        return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function toInteger(value: string | undefined): number | undefined {
+    const number = parseInt(value || "");
+    return number > 0 ? number : undefined;
+}
+
+function firstString(...values: unknown[]): string | undefined {
+    for (const value of values) {
+        if (typeof value === "string" && value.trim()) {
+            return value.trim();
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Name of a JSON-LD person/organization value, which may be a string, an object or a list
+ */
+function jsonLdName(value: unknown): string | undefined {
+    if (Array.isArray(value)) {
+        return value.map(jsonLdName).filter(Boolean).join(", ") || undefined;
+    }
+    if (value && typeof value === "object") {
+        return firstString((value as any).name);
+    }
+    return firstString(value);
+}
+
+/**
+ * URLs of a JSON-LD image value (a URL, an ImageObject or a list of either)
+ */
+function jsonLdImages(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        return value.flatMap(jsonLdImages);
+    }
+    if (value && typeof value === "object") {
+        const url = firstString((value as any).url, (value as any).contentUrl);
+        return url ? [url] : [];
+    }
+    const url = firstString(value);
+    return url ? [url] : [];
+}
+
+/**
+ * The JSON-LD node describing the page: the first node (including @graph members) with a
+ * headline or name
+ */
+function primaryJsonLdNode(blocks: unknown[]): Record<string, any> | undefined {
+    const nodes: Record<string, any>[] = [];
+    const collect = (value: unknown) => {
+        if (Array.isArray(value)) {
+            value.forEach(collect);
+        } else if (value && typeof value === "object") {
+            nodes.push(value as Record<string, any>);
+            collect((value as any)["@graph"]);
+        }
+    };
+    blocks.forEach(collect);
+    return nodes.find(node => firstString(node.headline, node.name) && node["@type"] !== "BreadcrumbList");
+}
+
+/**
+ * Pick the favicon: an explicit icon link, then an apple-touch-icon, then /favicon.ico
+ */
+function findFavicon(head: HtmlHead, base: string): string | undefined {
+    const rels = (link: Record<string, string>) => (link.rel || "").toLowerCase().split(/\s+/);
+    const icon = head.links.find(link => link.href && rels(link).includes("icon"))
+        || head.links.find(link => link.href && rels(link).some(rel => rel.startsWith("apple-touch-icon")));
+    return absolutize(icon?.href || "/favicon.ico", base);
+}
+
+/**
+ * Build a normalized preview from the parsed head of a page fetched from pageUrl
+ */
+export function extractLinkPreview(head: HtmlHead, pageUrl: string): LinkPreview {
+    const base = absolutize(head.baseHref, pageUrl) || pageUrl;
+    const values: Record<string, string> = {};
+    const ogImages: PreviewImage[] = [];
+    const twitterImages: PreviewImage[] = [];
+    let video: PreviewVideo | undefined;
+
+    // Structured properties (og:image:width, ...) belong to the og:image before them
+    for (const meta of head.meta) {
+        const key = (meta.property || meta.name || meta.itemprop || "").toLowerCase();
+        const content = meta.content?.trim();
+        if (!key || !content) {
+            continue;
+        }
+
+        const current = ogImages[ogImages.length - 1];
+        switch (key) {
+            case "og:image":
+                ogImages.push({ url: content });
+                break;
+            case "og:image:url":
+            case "og:image:secure_url":
+                if (current && (key === "og:image:secure_url" || !current.url)) {
+                    current.url = content;
+                } else if (!current) {
+                    ogImages.push({ url: content });
+                }
+                break;
+            case "og:image:width":
+                if (current) current.width = toInteger(content);
+                break;
+            case "og:image:height":
+                if (current) current.height = toInteger(content);
+                break;
+            case "og:image:alt":
+                if (current) current.alt = content;
+                break;
+            case "og:image:type":
+                if (current) current.type = content;
+                break;
+            case "twitter:image":
+            case "twitter:image:src":
+                twitterImages.push({ url: content });
+                break;
+            case "twitter:image:alt":
+                if (twitterImages.length > 0) twitterImages[twitterImages.length - 1].alt = content;
+                break;
+            case "og:video":
+            case "og:video:url":
+            case "og:video:secure_url":
+                if (!video || key === "og:video:secure_url") {
+                    video = { ...video, url: content };
+                }
+                break;
+            case "og:video:width":
+                if (video) video.width = toInteger(content);
+                break;
+            case "og:video:height":
+                if (video) video.height = toInteger(content);
+                break;
+            case "og:video:type":
+                if (video) video.type = content;
+                break;
+            default:
+                if (!(key in values)) {
+                    values[key] = content;
+                }
+        }
+    }
+
+    const jsonLd = primaryJsonLdNode(head.jsonLd) || {};
+    const canonical = head.links.find(link => (link.rel || "").toLowerCase().split(/\s+/).includes("canonical"))?.href;
+
+    const imageCandidates = ogImages.length > 0
+        ? ogImages
+        : twitterImages.length > 0
+            ? twitterImages
+            : jsonLdImages(jsonLd.image).map(url => ({ url }));
+
+    const images: PreviewImage[] = [];
+    for (const image of imageCandidates) {
+        const url = absolutize(image.url, base);
+        if (url && !images.some(existing => existing.url === url)) {
+            images.push({ ...image, url });
+        }
+    }
+
+    const videoUrl = absolutize(video?.url, base);
+
+    return {
+        url: absolutize(values["og:url"], base) || absolutize(canonical, base) || pageUrl,
+        title: firstString(values["og:title"], values["twitter:title"], jsonLd.headline, jsonLd.name, head.title),
+        description: firstString(values["og:description"], values["twitter:description"], values["description"], jsonLd.description),
+        siteName: firstString(values["og:site_name"], jsonLdName(jsonLd.publisher), values["application-name"]),
+        type: firstString(values["og:type"], Array.isArray(jsonLd["@type"]) ? jsonLd["@type"][0] : jsonLd["@type"]),
+        author: firstString(values["article:author"], values["author"], jsonLdName(jsonLd.author), values["twitter:creator"]),
+        publishedTime: firstString(values["article:published_time"], jsonLd.datePublished),
+        locale: firstString(values["og:locale"]),
+        themeColor: firstString(values["theme-color"]),
+        favicon: findFavicon(head, base),
+        twitterCard: firstString(values["twitter:card"]),
+        images: images.slice(0, MAX_IMAGES),
+        video: videoUrl ? { ...video, url: videoUrl } : undefined
+    };
+}
+
+/**
+ * Character set of a page, from the Content-Type header or a meta charset declaration
+ */
+function detectCharset(contentType: string, body: Buffer): string {
+    const declared = /charset\s*=\s*["']?([\w-]+)/i.exec(contentType)
+        || /<meta[^>]+charset\s*=\s*["']?([\w-]+)/i.exec(body.subarray(0, 4096).toString("latin1"));
+    return declared ? declared[1].toLowerCase() : "utf-8";
+}
+
+/**
+ * Read a page body up to the end of its head, stopping at MAX_HTML_BYTES. Metadata lives in
+ * the head, so large pages are truncated rather than rejected.
+ */
+async function readHead(stream: NodeJS.ReadableStream & { destroy?: () => void }): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of stream) {
+        const buffer = Buffer.from(chunk);
+        chunks.push(buffer);
+        size += buffer.length;
+        if (size >= MAX_HTML_BYTES || /<\/head\s*>/i.test(buffer.toString("latin1"))) {
+            stream.destroy?.();
+            break;
+        }
+    }
+    return Buffer.concat(chunks).subarray(0, MAX_HTML_BYTES);
+}
+
+/**
+ * Fetch a page through the outbound URL policy and extract its preview. A direct image URL
+ * yields a preview with just that image.
+ */
+export async function fetchLinkPreview(url: string): Promise<LinkPreview> {
+    let response;
+    try {
+        response = await safeGet<NodeJS.ReadableStream>(url, {
+            responseType: "stream",
+            timeout: REQUEST_TIMEOUT,
+            headers: {
+                "Accept": "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8",
+                "User-Agent": USER_AGENT
+            }
+        });
+    } catch (err) {
+        if (axios.isAxiosError(err)) {
+            throw new LinkPreviewError(
+                err.code === "ECONNABORTED" ? "Page did not respond in time" : `Failed to fetch page: ${err.message}`,
+                err.code === "ECONNABORTED" ? 504 : 502
+            );
+        }
+        if (err.code === "ENOTFOUND" || err.code === "EAI_AGAIN") {
+            throw new LinkPreviewError("Could not resolve host", 502);
+        }
+        throw err;
+    }
+
+    // Redirects are followed, so relative URLs resolve against the last hop
+    const finalUrl = response.config.url || url;
+    const contentType = String(response.headers["content-type"] || "");
+    const mimeType = contentType.split(";")[0].trim().toLowerCase();
+    const stream = response.data as NodeJS.ReadableStream & { destroy?: () => void };
+
+    if (mimeType.startsWith("image/")) {
+        stream.destroy?.();
+        return { url: finalUrl, images: [{ url: finalUrl, type: mimeType }] };
+    }
+
+    if (mimeType !== "text/html" && mimeType !== "application/xhtml+xml") {
+        stream.destroy?.();
+        throw new LinkPreviewError(`Unsupported content type ${mimeType || "(none)"}`, 415);
+    }
+
+    const body = await readHead(stream);
+    let html: string;
+    try {
+        html = new TextDecoder(detectCharset(contentType, body)).decode(body);
+    } catch {
+        html = body.toString("utf8");
+    }
+
+    return extractLinkPreview(parseHtmlHead(html), finalUrl);
+}
@@ -0,0 +1,85 @@
+import { CacheEntryInfo, CacheStorage } from "./cacheStorage";
+
+interface MemoryEntry {
+    info: CacheEntryInfo;
+    body: Buffer;
+}
+
+/**
+ * In-process cache storage for development and single-instance deployments. Entries are
+ * dropped least recently used first once the total size exceeds maxBytes.
+ */
+export class MemoryCacheStorage implements CacheStorage {
+    private readonly entries = new Map<string, MemoryEntry>();
+    private totalBytes = 0;
+
+    constructor(private readonly maxBytes: number) {}
+
+    /**
+     * Look up an entry and move it to the end of the Map, making it the most recently used
+     */
+    private touch(name: string): MemoryEntry | undefined {
+        const entry = this.entries.get(name);
+        if (entry) {
+            this.entries.delete(name);
+            this.entries.set(name, entry);
+        }
+        return entry;
+    }
+
+    async getInfo(name: string): Promise<CacheEntryInfo | null> {
+        const entry = this.touch(name);
+        return entry ? { ...entry.info, metadata: { ...entry.info.metadata } } : null;
+    }
+
+    async read(name: string): Promise<Buffer> {
+        const entry = this.touch(name);
+        if (!entry) {
+            throw new Error(`Cache entry not found: ${name}`);
+        }
+        return entry.body;
+    }
+
+    async write(name: string, body: Buffer, contentType: string, metadata: Record<string, string>): Promise<void> {
+        await this.delete(name);
+
+        this.entries.set(name, {
+            info: { name, size: body.length, contentType, metadata: { ...metadata }, lastModified: new Date() },
+            body
+        });
+        this.totalBytes += body.length;
+
+        // Map iteration follows insertion order and lookups re-insert, so the first entries are
+        // the least recently used
+        for (const key of this.entries.keys()) {
+            if (this.totalBytes <= this.maxBytes || key === name) {
+                break;
+            }
+            await this.delete(key);
+        }
+    }
+
+    async setMetadata(name: string, metadata: Record<string, string>): Promise<void> {
+        const entry = this.entries.get(name);
+        if (!entry) {
+            throw new Error(`Cache entry not found: ${name}`);
+        }
+        entry.info = { ...entry.info, metadata: { ...metadata }, lastModified: new Date() };
+    }
+
+    async delete(name: string): Promise<boolean> {
+        const entry = this.entries.get(name);
+        if (!entry) {
+            return false;
+        }
+        this.entries.delete(name);
+        this.totalBytes -= entry.body.length;
+        return true;
+    }
+
+    async *list(): AsyncIterable<CacheEntryInfo> {
+        for (const entry of [...this.entries.values()]) {
+            yield { ...entry.info, metadata: { ...entry.info.metadata } };
+        }
+    }
+}
@@ -0,0 +1,39 @@
+import { RateLimitStore, TokenBucketState } from "./rateLimit";
+
+/**
+ * In-process token buckets for development and single-instance deployments
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private readonly buckets = new Map<string, TokenBucketState>();
+
+    constructor(private readonly maxKeys: number) {}
+
+    async update(key: string, update: (current: TokenBucketState | null) => TokenBucketState): Promise<TokenBucketState> {
+        const next = update(this.buckets.get(key) || null);
+        this.buckets.delete(key);
+        this.buckets.set(key, next);
+
+        if (this.buckets.size > this.maxKeys) {
+            // Full buckets carry no information; past that, drop the least recently used
+            await this.sweep(Date.now());
+            for (const name of this.buckets.keys()) {
+                if (this.buckets.size <= this.maxKeys) {
+                    break;
+                }
+                this.buckets.delete(name);
+            }
+        }
+        return next;
+    }
+
+    async sweep(now: number): Promise<number> {
+        let deleted = 0;
+        for (const [name, state] of this.buckets) {
+            if (state.fullAt <= now) {
+                this.buckets.delete(name);
+                deleted++;
+            }
+        }
+        return deleted;
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * Number of leading bytes sniffMimeType needs to recognize every supported format
+ */
+export const SNIFF_LENGTH = 512;
+
+// ISO base media (ftyp) brands, mapped to their MIME types
+const FTYP_BRANDS: Record<string, string> = {
+    "avif": "image/avif",
+    "avis": "image/avif",
+    "heic": "image/heic",
+    "heix": "image/heic",
+    "mif1": "image/heif",
+    "msf1": "image/heif",
+    "qt  ": "video/quicktime",
+    "M4A ": "audio/mp4",
+    "M4B ": "audio/mp4",
+    "3gp4": "video/3gpp",
+    "3gp5": "video/3gpp",
+    "3g2a": "video/3gpp2"
+};
+
+function startsWith(bytes: Buffer, signature: number[], offset: number = 0): boolean {
+    return bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function ascii(bytes: Buffer, start: number, end: number): string {
+    return bytes.subarray(start, end).toString("latin1");
+}
+
+/**
+ * Detect the MIME type of a payload from its leading bytes (magic numbers), independent of
+ * what the server claims. Returns null when the format is not recognized.
+ */
+export function sniffMimeType(bytes: Buffer): string | null {
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+    if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") return "image/gif";
+    if (ascii(bytes, 0, 4) === "RIFF") {
+        const type = ascii(bytes, 8, 12);
+        if (type === "WEBP") return "image/webp";
+        if (type === "WAVE") return "audio/wav";
+        if (type === "AVI ") return "video/x-msvideo";
+    }
+    if (ascii(bytes, 4, 8) === "ftyp") {
+        const brand = ascii(bytes, 8, 12);
+        return FTYP_BRANDS[brand] || "video/mp4";
+    }
+    if (startsWith(bytes, [0x42, 0x4d])) return "image/bmp";
+    if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return "image/tiff";
+    if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) return "image/x-icon";
+    if (startsWith(bytes, [0xff, 0x0a]) || startsWith(bytes, [0x00, 0x00, 0x00, 0x0c, 0x4a, 0x58, 0x4c, 0x20])) return "image/jxl";
+    if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+        return bytes.subarray(0, SNIFF_LENGTH).includes("webm") ? "video/webm" : "video/x-matroska";
+    }
+    if (ascii(bytes, 0, 4) === "OggS") return "audio/ogg";
+    if (ascii(bytes, 0, 4) === "fLaC") return "audio/flac";
+    if (ascii(bytes, 0, 3) === "ID3" || startsWith(bytes, [0xff, 0xfb]) || startsWith(bytes, [0xff, 0xf3]) || startsWith(bytes, [0xff, 0xf2])) return "audio/mpeg";
+    if (startsWith(bytes, [0xff, 0xf1]) || startsWith(bytes, [0xff, 0xf9])) return "audio/aac";
+    if (ascii(bytes, 0, 5) === "%PDF-") return "application/pdf";
+    if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return "application/zip";
+
+    // Text formats: skip a BOM and leading whitespace before looking at the markup
+    // (an XML declaration, doctype or comment may precede the <svg> root element)
+    const text = ascii(bytes, 0, SNIFF_LENGTH).replace(/^\xEF\xBB\xBF/, "").trimStart().toLowerCase();
+    if (text.startsWith("<") && /<svg[\s>]/.test(text) && !text.includes("<html")) return "image/svg+xml";
+
+    return null;
+}
+
+/**
+ * Whether a sniffed MIME type is a raster or vector image
+ */
+export function isImageMimeType(mimeType: string | null): boolean {
+    return !!mimeType && mimeType.startsWith("image/");
+}
+
+/**
+ * Whether a MIME type is audio or video
+ */
+export function isMediaMimeType(mimeType: string | null): boolean {
+    return !!mimeType && (mimeType.startsWith("audio/") || mimeType.startsWith("video/"));
+}
@@ -0,0 +1,310 @@
+import { InvocationContext } from "@azure/functions";
+import { coalesce } from "./coalesce";
+import { safeGet } from "./urlPolicy";
+
+const REQUEST_TIMEOUT = 10000; // 10 seconds
+const PROVIDER_LIST_URL = process.env.OEMBED_PROVIDERS_URL ?? "https://oembed.com/providers.json";
+const PROVIDER_LIST_TTL_MS = 24 * 3600000; // 24 hours
+const PROVIDER_LIST_RETRY_MS = 10 * 60000; // 10 minutes after a failed download
+const MAX_PROVIDER_LIST_BYTES = 5 * 1024 * 1024;
+// oEmbed responses are small; {origin} providers let any host answer, so cap what we buffer
+const MAX_RESPONSE_BYTES = 1024 * 1024;
+// Some providers (Medium among them) reject requests that don't look like a browser
+const USER_AGENT = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36";
+
+/**
+ * A provider in the format of the public oEmbed providers list (https://oembed.com/providers.json).
+ * Schemes are URL globs where * matches anything. The endpoint URL may contain {format}, and
+ * {origin} for providers hosted on every instance of a federated service (such as Mastodon).
+ */
+export interface OEmbedProviderEntry {
+    provider_name: string;
+    provider_url: string;
+    endpoints: {
+        schemes?: string[];
+        url: string;
+    }[];
+}
+
+export interface OEmbedProvider {
+    name: string;
+    url: string;
+    endpoint: string;
+}
+
+/**
+ * oEmbed response (https://oembed.com/#section2.3). Providers may add their own fields.
+ */
+export interface OEmbedResponse {
+    type: "photo" | "video" | "link" | "rich";
+    version: string;
+    title?: string;
+    author_name?: string;
+    author_url?: string;
+    provider_name?: string;
+    provider_url?: string;
+    cache_age?: number;
+    thumbnail_url?: string;
+    thumbnail_width?: number;
+    thumbnail_height?: number;
+    url?: string;
+    html?: string;
+    width?: number;
+    height?: number;
+    [field: string]: unknown;
+}
+
+/**
+ * Providers we rely on, checked before the public list so that their endpoints and schemes
+ * are under our control
+ */
+const BUILT_IN_PROVIDERS: OEmbedProviderEntry[] = [
+    {
+        provider_name: "YouTube",
+        provider_url: "https://www.youtube.com/",
+        endpoints: [{
+            schemes: ["https://*.youtube.com/watch*", "https://*.youtube.com/shorts/*", "https://*.youtube.com/embed/*", "https://*.youtube.com/live/*", "https://youtu.be/*"],
+            url: "https://www.youtube.com/oembed"
+        }]
+    },
+    {
+        provider_name: "Vimeo",
+        provider_url: "https://vimeo.com/",
+        endpoints: [{
+            schemes: ["https://vimeo.com/*", "https://player.vimeo.com/video/*"],
+            url: "https://vimeo.com/api/oembed.json"
+        }]
+    },
+    {
+        provider_name: "Spotify",
+        provider_url: "https://spotify.com/",
+        endpoints: [{
+            schemes: ["https://open.spotify.com/*"],
+            url: "https://open.spotify.com/oembed"
+        }]
+    },
+    {
+        provider_name: "SoundCloud",
+        provider_url: "https://soundcloud.com/",
+        endpoints: [{
+            schemes: ["https://soundcloud.com/*", "https://on.soundcloud.com/*", "https://m.soundcloud.com/*"],
+            url: "https://soundcloud.com/oembed"
+        }]
+    },
+    {
+        provider_name: "X",
+        provider_url: "https://x.com/",
+        endpoints: [{
+            schemes: ["https://twitter.com/*/status/*", "https://*.twitter.com/*/status/*", "https://x.com/*/status/*"],
+            url: "https://publish.twitter.com/oembed"
+        }]
+    },
+    {
+        provider_name: "Medium",
+        provider_url: "https://medium.com/",
+        endpoints: [{
+            schemes: ["https://medium.com/*", "https://*.medium.com/*"],
+            url: "https://medium.com/oembed"
+        }]
+    }
+];
+
+/**
+ * Federated services serve oEmbed on every instance. Their schemes can't name hosts, so they
+ * are broad and only checked after every other provider.
+ */
+const FEDERATED_PROVIDERS: OEmbedProviderEntry[] = [
+    {
+        provider_name: "Mastodon",
+        provider_url: "https://joinmastodon.org/",
+        endpoints: [{
+            schemes: ["https://*/@*/*"],
+            url: "{origin}/api/oembed"
+        }]
+    }
+];
+
+interface CompiledProvider {
+    name: string;
+    url: string;
+    endpoint: string;
+    patterns: RegExp[];
+}
+
+let publicProviders: { providers: CompiledProvider[]; expiresAt: number } | null = null;
+let configuredProviders: CompiledProvider[] | null = null;
+let federatedProviders: CompiledProvider[] | null = null;
+
+/**
+ * Turn a scheme glob into a regular expression. Schemes match http and https alike.
+ */
+function schemePattern(scheme: string): RegExp {
+    const body = scheme
+        .replace(/^https?:\/\//i, "")
+        .split("*")
+        .map(part => part.replace(/[.+?^${}()|[\]\\\/]/g, "\\$&"))
+        .join(".*");
+    return new RegExp(`^https?:\\/\\/${body}$`, "i");
+}
+
+function compileProviders(entries: OEmbedProviderEntry[]): CompiledProvider[] {
+    return entries.flatMap(entry => (entry.endpoints || [])
+        .filter(endpoint => endpoint.url && endpoint.schemes?.length)
+        .map(endpoint => ({
+            name: entry.provider_name,
+            url: entry.provider_url,
+            endpoint: endpoint.url,
+            patterns: endpoint.schemes.map(schemePattern)
+        })));
+}
+
+/**
+ * Providers from the OEMBED_PROVIDERS setting (JSON in the providers list format) followed by
+ * the built-in ones. Configured providers come first so they can override built-ins.
+ */
+function getConfiguredProviders(context?: InvocationContext): CompiledProvider[] {
+    if (configuredProviders) {
+        return configuredProviders;
+    }
+
+    let overrides: OEmbedProviderEntry[] = [];
+    if (process.env.OEMBED_PROVIDERS) {
+        try {
+            overrides = JSON.parse(process.env.OEMBED_PROVIDERS);
+        } catch (err) {
+            context?.error(`Invalid OEMBED_PROVIDERS configuration, using built-in providers: ${err}`);
+        }
+    }
+
+    configuredProviders = compileProviders([...overrides, ...BUILT_IN_PROVIDERS]);
+    return configuredProviders;
+}
+
+/**
+ * The public providers list from OEMBED_PROVIDERS_URL, downloaded at most once a day. When
+ * the download fails, lookups continue with the configured providers only.
+ */
+async function getPublicProviders(context?: InvocationContext): Promise<CompiledProvider[]> {
+    if (!PROVIDER_LIST_URL) {
+        return [];
+    }
+    if (publicProviders && publicProviders.expiresAt > Date.now()) {
+        return publicProviders.providers;
+    }
+
+    return coalesce("oembed:providers", async () => {
+        try {
+            const response = await safeGet<OEmbedProviderEntry[]>(PROVIDER_LIST_URL, {
+                timeout: REQUEST_TIMEOUT,
+                maxContentLength: MAX_PROVIDER_LIST_BYTES,
+                responseType: "json"
+            });
+            const providers = compileProviders(Array.isArray(response.data) ? response.data : []);
+            publicProviders = { providers, expiresAt: Date.now() + PROVIDER_LIST_TTL_MS };
+        } catch (err) {
+            context?.warn(`Failed to load oEmbed providers from ${PROVIDER_LIST_URL}: ${err}`);
+            publicProviders = { providers: publicProviders?.providers || [], expiresAt: Date.now() + PROVIDER_LIST_RETRY_MS };
+        }
+        return publicProviders.providers;
+    });
+}
+
+/**
+ * Find the oEmbed provider for a URL. Returns null when no provider's scheme matches.
+ */
+export async function findOEmbedProvider(url: string, context?: InvocationContext): Promise<OEmbedProvider | null> {
+    let target: URL;
+    try {
+        target = new URL(url);
+    } catch {
+        return null;
+    }
+
+    federatedProviders = federatedProviders || compileProviders(FEDERATED_PROVIDERS);
+    const providers = [...getConfiguredProviders(context), ...await getPublicProviders(context), ...federatedProviders];
+    const match = providers.find(provider => provider.patterns.some(pattern => pattern.test(url)));
+    if (!match) {
+        return null;
+    }
+
+    return {
+        name: match.name,
+        url: match.url,
+        endpoint: match.endpoint.replace("{format}", "json").replace("{origin}", target.origin)
+    };
+}
+
+/**
+ * Look up a URL with its oEmbed provider. Returns null when no provider matches; provider
+ * failures are thrown.
+ */
+export async function fetchOEmbed(
+    url: string,
+    options: { maxwidth?: number; maxheight?: number } = {},
+    context?: InvocationContext
+): Promise<{ provider: OEmbedProvider; data: OEmbedResponse } | null> {
+    const provider = await findOEmbedProvider(url, context);
+    if (!provider) {
+        return null;
+    }
+
+    const params: Record<string, string> = { url, format: "json" };
+    if (options.maxwidth) params.maxwidth = String(options.maxwidth);
+    if (options.maxheight) params.maxheight = String(options.maxheight);
+
+    const endpoint = new URL(provider.endpoint);
+    for (const [name, value] of Object.entries(params)) {
+        endpoint.searchParams.set(name, value);
+    }
+
+    const response = await safeGet<OEmbedResponse>(endpoint.toString(), {
+        timeout: REQUEST_TIMEOUT,
+        maxContentLength: MAX_RESPONSE_BYTES,
+        responseType: "json",
+        headers: {
+            "Accept": "application/json",
+            "User-Agent": USER_AGENT
+        }
+    });
+
+    if (!response.data || typeof response.data !== "object") {
+        throw new Error(`Invalid oEmbed response from ${provider.name}`);
+    }
+
+    return {
+        provider,
+        data: {
+            ...response.data,
+            provider_name: response.data.provider_name || provider.name,
+            provider_url: response.data.provider_url || provider.url
+        }
+    };
+}
+
+function escapeHtml(value: string): string {
+    return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Minimal HTML page carrying the oEmbed data as Open Graph tags, for clients that read
+ * previews from a page's head
+ */
+export function oEmbedToHtml(url: string, data: OEmbedResponse): string {
+    const meta = (property: string, value: string | undefined) =>
+        value ? `<meta property="${property}" content="${escapeHtml(value)}"/>` : "";
+
+    return [
+        "<!doctype html>",
+        "<html><head>",
+        data.title ? `<title>${escapeHtml(data.title)}</title>` : "",
+        meta("og:title", data.title),
+        meta("og:url", url),
+        meta("og:site_name", data.provider_name),
+        meta("og:type", data.type === "video" ? "video.other" : "website"),
+        meta("og:image", data.thumbnail_url),
+        meta("og:image:width", data.thumbnail_width?.toString()),
+        meta("og:image:height", data.thumbnail_height?.toString()),
+        data.author_name ? `<meta name="author" content="${escapeHtml(data.author_name)}"/>` : "",
+        "</head><body></body></html>"
+    ].join("");
+}
@@ -0,0 +1,203 @@
+import { InvocationContext } from "@azure/functions";
+import * as crypto from "crypto";
+import { getImageCacheStorage, OriginValidators } from "./imageCache";
+
+// Stored next to the image variants in the image-cache container, so the sweeper covers them
+const CACHE_EXTENSION = "proxy";
+
+// Bounds on how long a response is served without asking the origin, whatever it says
+const MIN_TTL_MS = parseInt(process.env.CORS_PROXY_CACHE_MIN_TTL_MS || "60000"); // 1 minute
+const MAX_TTL_MS = parseInt(process.env.CORS_PROXY_CACHE_MAX_TTL_MS || "3600000"); // 1 hour
+// Used when the origin sends no freshness information
+const DEFAULT_TTL_MS = parseInt(process.env.CORS_PROXY_CACHE_DEFAULT_TTL_MS || "300000"); // 5 minutes
+// How long past its freshness a response is kept for revalidation and as a fallback
+const MAX_STALE_MS = parseInt(process.env.CORS_PROXY_CACHE_MAX_STALE_MS || String(86400000)); // 1 day
+// Longest origin Retry-After we honour before asking again
+const MAX_RETRY_AFTER_MS = parseInt(process.env.CORS_PROXY_MAX_RETRY_AFTER_MS || "3600000"); // 1 hour
+
+export const PROXY_CACHE_ENABLED = process.env.CORS_PROXY_CACHE_ENABLED !== "false";
+
+/**
+ * A cached proxied response. Only its properties are loaded; call read() for the body.
+ */
+export interface CachedResponse {
+    status: number;
+    contentType: string;
+    validators: OriginValidators;
+    cachedAt: number;
+    freshUntil: number;
+    /** Set while the origin has asked us (with 429 and Retry-After) not to come back yet */
+    retryAfterUntil?: number;
+    fresh: boolean;
+    read(): Promise<Buffer>;
+}
+
+export interface StoredResponse {
+    status: number;
+    contentType: string;
+    body: Buffer;
+    validators: OriginValidators;
+    ttlMs: number;
+}
+
+/**
+ * Clamp a lifetime to the configured bounds. Responses the origin says are already stale
+ * keep a lifetime of 0, so they are revalidated on every request rather than cached for
+ * MIN_TTL_MS.
+ */
+function clampTtl(ttlMs: number): number {
+    return ttlMs <= 0 ? 0 : Math.min(Math.max(ttlMs, MIN_TTL_MS), MAX_TTL_MS);
+}
+
+/**
+ * Cache key for a proxied URL and the request headers that are forwarded to the origin.
+ * The fragment is dropped and query parameters are sorted, so equivalent URLs share an entry.
+ */
+export function proxyCacheKey(url: string, varyHeaders: Record<string, string | null>): string {
+    const normalized = new URL(url);
+    normalized.hash = "";
+    normalized.searchParams.sort();
+
+    const hash = crypto.createHash("sha256").update(normalized.toString());
+    for (const name of Object.keys(varyHeaders).sort()) {
+        hash.update(`\n${name.toLowerCase()}:${(varyHeaders[name] || "").trim()}`);
+    }
+    return hash.digest("hex");
+}
+
+/**
+ * How long the origin allows a response to be cached, clamped to the configured bounds.
+ * Returns null for responses that must not be stored (no-store or private), and 0 for ones
+ * that must be revalidated before every use (no-cache, max-age=0 or an Expires in the past).
+ */
+export function freshnessLifetime(headers: Record<string, any>): number | null {
+    const cacheControl = String(headers["cache-control"] || "").toLowerCase();
+    if (/(^|,)\s*(no-store|private)\b/.test(cacheControl)) {
+        return null;
+    }
+    if (/(^|,)\s*no-cache\b/.test(cacheControl)) {
+        return 0;
+    }
+
+    const maxAge = /(?:^|,)\s*s-maxage\s*=\s*"?(\d+)/.exec(cacheControl) || /(?:^|,)\s*max-age\s*=\s*"?(\d+)/.exec(cacheControl);
+    if (maxAge) {
+        return clampTtl(parseInt(maxAge[1]) * 1000);
+    }
+
+    const expires = Date.parse(headers["expires"] || "");
+    if (!isNaN(expires)) {
+        const date = Date.parse(headers["date"] || "");
+        return clampTtl(expires - (isNaN(date) ? Date.now() : date));
+    }
+
+    return clampTtl(DEFAULT_TTL_MS);
+}
+
+/**
+ * Milliseconds to wait according to a Retry-After header (seconds or an HTTP date), capped
+ * at CORS_PROXY_MAX_RETRY_AFTER_MS. Returns null when the header is missing or invalid.
+ */
+export function parseRetryAfter(value: string | undefined): number | null {
+    if (!value) {
+        return null;
+    }
+    const delay = /^\s*\d+\s*$/.test(value) ? parseInt(value) * 1000 : Date.parse(value) - Date.now();
+    return isNaN(delay) ? null : Math.min(Math.max(delay, 0), MAX_RETRY_AFTER_MS);
+}
+
+function toMetadata(validators: OriginValidators, existing: Record<string, string>, fields: Record<string, string>): Record<string, string> {
+    const metadata: Record<string, string> = { ...existing, ...fields };
+    delete metadata.originetag;
+    delete metadata.originlastmodified;
+    if (validators.etag) metadata.originetag = encodeURIComponent(validators.etag);
+    if (validators.lastModified) metadata.originlastmodified = encodeURIComponent(validators.lastModified);
+    return metadata;
+}
+
+/**
+ * Get a cached response. Entries more than CORS_PROXY_CACHE_MAX_STALE_MS past their
+ * freshness are deleted and treated as a miss.
+ */
+export async function getCachedResponse(key: string, context?: InvocationContext): Promise<CachedResponse | null> {
+    try {
+        const storage = getImageCacheStorage(context);
+        const name = `${key}.${CACHE_EXTENSION}`;
+        const info = await storage.getInfo(name);
+        if (!info) {
+            return null;
+        }
+
+        const freshUntil = parseInt(info.metadata.freshuntil || "") || 0;
+        if (Date.now() > freshUntil + MAX_STALE_MS) {
+            await storage.delete(name);
+            return null;
+        }
+
+        const retryAfterUntil = parseInt(info.metadata.retryafteruntil || "") || undefined;
+        return {
+            status: parseInt(info.metadata.status || "") || 200,
+            contentType: info.contentType || "application/octet-stream",
+            validators: {
+                etag: info.metadata.originetag ? decodeURIComponent(info.metadata.originetag) : undefined,
+                lastModified: info.metadata.originlastmodified ? decodeURIComponent(info.metadata.originlastmodified) : undefined
+            },
+            cachedAt: parseInt(info.metadata.cachedat || "") || info.lastModified.getTime(),
+            freshUntil,
+            retryAfterUntil: retryAfterUntil && retryAfterUntil > Date.now() ? retryAfterUntil : undefined,
+            fresh: Date.now() < freshUntil,
+            read: () => storage.read(name)
+        };
+    } catch (err) {
+        context?.error(`Failed to get cached response: ${err}`);
+        return null;
+    }
+}
+
+export async function cacheResponse(key: string, response: StoredResponse, context?: InvocationContext): Promise<void> {
+    try {
+        const now = Date.now();
+        await getImageCacheStorage(context).write(`${key}.${CACHE_EXTENSION}`, response.body, response.contentType, toMetadata(response.validators, {}, {
+            status: response.status.toString(),
+            cachedat: now.toString(),
+            freshuntil: (now + response.ttlMs).toString()
+        }));
+    } catch (err) {
+        context?.error(`Failed to cache response: ${err}`);
+    }
+}
+
+/**
+ * Mark a cached response as fresh again without re-uploading it (origin answered 304)
+ */
+export async function refreshCachedResponse(key: string, validators: OriginValidators, ttlMs: number, context?: InvocationContext): Promise<void> {
+    try {
+        const storage = getImageCacheStorage(context);
+        const name = `${key}.${CACHE_EXTENSION}`;
+        const info = await storage.getInfo(name);
+        if (info) {
+            const now = Date.now();
+            const metadata = toMetadata(validators, info.metadata, { cachedat: now.toString(), freshuntil: (now + ttlMs).toString() });
+            delete metadata.retryafteruntil;
+            await storage.setMetadata(name, metadata);
+        }
+    } catch (err) {
+        context?.error(`Failed to refresh cached response: ${err}`);
+    }
+}
+
+/**
+ * Record that the origin rate limited us, so the cached response is served without asking
+ * the origin again until the Retry-After delay has passed
+ */
+export async function deferRevalidation(key: string, delayMs: number, context?: InvocationContext): Promise<void> {
+    try {
+        const storage = getImageCacheStorage(context);
+        const name = `${key}.${CACHE_EXTENSION}`;
+        const info = await storage.getInfo(name);
+        if (info) {
+            await storage.setMetadata(name, { ...info.metadata, retryafteruntil: (Date.now() + delayMs).toString() });
+        }
+    } catch (err) {
+        context?.error(`Failed to record origin Retry-After: ${err}`);
+    }
+}
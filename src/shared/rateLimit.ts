@@ -0,0 +1,304 @@
+import { HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import * as crypto from "crypto";
+import * as net from "net";
+import { AzureBlobRateLimitStore } from "./azureBlobRateLimitStore";
+import { hasValidApiKey } from "./corsPolicy";
+import { MemoryRateLimitStore } from "./memoryRateLimitStore";
+
+const RATE_LIMIT_ENABLED = process.env.RATE_LIMIT_ENABLED !== "false";
+// Key browser traffic by client IP (default) or by its Origin header
+const KEY_BY_ORIGIN = (process.env.RATE_LIMIT_KEY_BY || "ip").toLowerCase() === "origin";
+const MEMORY_STORE_MAX_KEYS = 10000;
+
+/**
+ * State of one token bucket. fullAt is when the bucket will have refilled completely, after
+ * which the state is equivalent to a missing one and may be dropped.
+ */
+export interface TokenBucketState {
+    tokens: number;
+    updatedAt: number;
+    fullAt: number;
+}
+
+/**
+ * Where token buckets live. The in-memory store only limits per instance; a shared store
+ * makes the budgets hold across a scaled-out app.
+ */
+export interface RateLimitStore {
+    /**
+     * Atomically replace the state of a bucket with update(current). Stores may call update
+     * more than once when a concurrent write wins, so it must not have side effects.
+     */
+    update(key: string, update: (current: TokenBucketState | null) => TokenBucketState): Promise<TokenBucketState>;
+
+    /**
+     * Drop buckets whose fullAt has passed, returning how many were dropped. Stores that
+     * expire entries on their own (such as Redis with TTLs) can leave this out.
+     */
+    sweep?(now: number): Promise<number>;
+}
+
+/**
+ * A function's budget: a bucket of `requests` tokens that refills completely over
+ * `windowSeconds`. Overridden with RATE_LIMIT_<NAME> ("requests/seconds", or "0" to disable),
+ * where NAME is the function name in upper snake case (RATE_LIMIT_CORS_PROXY).
+ */
+export interface RateLimitBudget {
+    name: string;
+    requests: number;
+    windowSeconds: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    windowSeconds: number;
+    remaining: number;
+    /** Seconds until the bucket is full again */
+    resetSeconds: number;
+    /** Seconds until a request would be allowed, 0 when it is */
+    retryAfterSeconds: number;
+}
+
+let store: RateLimitStore | null = null;
+const budgets = new Map<string, RateLimitBudget | null>();
+let trustedProxies: net.BlockList | undefined;
+
+/**
+ * Replace the rate limit store, e.g. with one backed by Redis
+ */
+export function setRateLimitStore(custom: RateLimitStore): void {
+    store = custom;
+}
+
+/**
+ * The configured store: RATE_LIMIT_STORE (memory or azure, default memory)
+ */
+function getRateLimitStore(context?: InvocationContext): RateLimitStore {
+    if (store) {
+        return store;
+    }
+
+    const type = (process.env.RATE_LIMIT_STORE || "memory").toLowerCase();
+    if (type === "azure") {
+        store = new AzureBlobRateLimitStore(process.env.RATE_LIMIT_CONTAINER || "rate-limits");
+    } else {
+        if (type !== "memory") {
+            context?.error(`Unknown RATE_LIMIT_STORE '${type}', falling back to memory`);
+        }
+        store = new MemoryRateLimitStore(MEMORY_STORE_MAX_KEYS);
+    }
+    return store;
+}
+
+/**
+ * A budget with its RATE_LIMIT_<NAME> override applied, or null when limiting is disabled
+ * for the function
+ */
+function resolveBudget(budget: RateLimitBudget, context?: InvocationContext): RateLimitBudget | null {
+    if (budgets.has(budget.name)) {
+        return budgets.get(budget.name);
+    }
+
+    const setting = `RATE_LIMIT_${budget.name.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase()}`;
+    const value = process.env[setting];
+    let resolved: RateLimitBudget | null = budget;
+    if (value !== undefined) {
+        const match = /^\s*(\d+)\s*(?:\/\s*(\d+)\s*)?$/.exec(value);
+        if (!match) {
+            context?.error(`Invalid ${setting} '${value}', expected "requests/seconds"`);
+        } else if (parseInt(match[1]) === 0) {
+            resolved = null;
+        } else {
+            resolved = { ...budget, requests: parseInt(match[1]), windowSeconds: parseInt(match[2] || String(budget.windowSeconds)) };
+        }
+    }
+
+    budgets.set(budget.name, resolved);
+    return resolved;
+}
+
+function stripPort(entry: string): string {
+    const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(entry);
+    if (bracketed) {
+        return bracketed[1];
+    }
+    // IPv4 with a port; a bare IPv6 address has more than one colon
+    return /^[\d.]+:\d+$/.test(entry) ? entry.substring(0, entry.lastIndexOf(":")) : entry;
+}
+
+/**
+ * Proxies in RATE_LIMIT_TRUSTED_PROXIES (comma-separated addresses or CIDR ranges) whose
+ * X-Forwarded-For entries are skipped when looking for the client address
+ */
+function getTrustedProxies(context?: InvocationContext): net.BlockList {
+    if (trustedProxies) {
+        return trustedProxies;
+    }
+
+    trustedProxies = new net.BlockList();
+    for (const entry of (process.env.RATE_LIMIT_TRUSTED_PROXIES || "").split(",").map(value => value.trim()).filter(Boolean)) {
+        const [address, prefix] = entry.split("/");
+        const family = net.isIP(address);
+        if (family === 0) {
+            context?.error(`Ignoring invalid RATE_LIMIT_TRUSTED_PROXIES entry '${entry}'`);
+            continue;
+        }
+        const type = family === 6 ? "ipv6" : "ipv4";
+        if (prefix) {
+            trustedProxies.addSubnet(address, parseInt(prefix), type);
+        } else {
+            trustedProxies.addAddress(address, type);
+        }
+    }
+    return trustedProxies;
+}
+
+/**
+ * The client address from X-Forwarded-For. The platform front end appends the address it
+ * received the connection from, so entries are read from the right, skipping trusted proxies
+ * (such as Azure Front Door); anything left of the first untrusted entry could be forged.
+ */
+export function getClientAddress(request: HttpRequest, context?: InvocationContext): string | null {
+    const entries = (request.headers.get("x-forwarded-for") || "")
+        .split(",")
+        .map(entry => stripPort(entry.trim()))
+        .filter(entry => net.isIP(entry) !== 0);
+
+    const trusted = getTrustedProxies(context);
+    for (let i = entries.length - 1; i >= 0; i--) {
+        const family = net.isIP(entries[i]) === 6 ? "ipv6" : "ipv4";
+        if (i === 0 || !trusted.check(entries[i], family)) {
+            return entries[i];
+        }
+    }
+    return null;
+}
+
+/**
+ * Which bucket a request draws from: its API key when it carries a valid one, otherwise its
+ * Origin (with RATE_LIMIT_KEY_BY=origin) or client address
+ */
+function rateLimitKey(request: HttpRequest, budget: RateLimitBudget, context?: InvocationContext): string {
+    let client: string;
+    if (hasValidApiKey(request)) {
+        client = `key:${request.headers.get("x-api-key")}`;
+    } else if (KEY_BY_ORIGIN && request.headers.get("origin")) {
+        client = `origin:${request.headers.get("origin").toLowerCase()}`;
+    } else {
+        client = `ip:${getClientAddress(request, context) || "unknown"}`;
+    }
+    // Hashed so keys (and API keys in particular) are never stored as is
+    return `${budget.name.toLowerCase()}-${crypto.createHash("sha256").update(client).digest("hex").substring(0, 32)}`;
+}
+
+/**
+ * Take one token from a bucket that refills at budget.requests per budget.windowSeconds
+ */
+function takeToken(current: TokenBucketState | null, budget: RateLimitBudget, now: number): { state: TokenBucketState; allowed: boolean } {
+    const ratePerMs = budget.requests / (budget.windowSeconds * 1000);
+    const refilled = current
+        ? Math.min(budget.requests, current.tokens + (now - current.updatedAt) * ratePerMs)
+        : budget.requests;
+    const allowed = refilled >= 1;
+    const tokens = allowed ? refilled - 1 : refilled;
+    return {
+        state: { tokens, updatedAt: now, fullAt: now + Math.ceil((budget.requests - tokens) / ratePerMs) },
+        allowed
+    };
+}
+
+/**
+ * Charge a request against a function's budget. Store failures let the request through.
+ * Returns null when limiting is disabled.
+ */
+export async function consumeRateLimit(request: HttpRequest, budget: RateLimitBudget, context?: InvocationContext): Promise<RateLimitResult | null> {
+    const resolved = RATE_LIMIT_ENABLED ? resolveBudget(budget, context) : null;
+    if (!resolved) {
+        return null;
+    }
+
+    const now = Date.now();
+    let allowed = true;
+    let state: TokenBucketState;
+    try {
+        state = await getRateLimitStore(context).update(rateLimitKey(request, resolved, context), current => {
+            const taken = takeToken(current, resolved, now);
+            allowed = taken.allowed;
+            return taken.state;
+        });
+    } catch (err) {
+        context?.warn(`Rate limit store failed, allowing request: ${err}`);
+        return null;
+    }
+
+    const ratePerSecond = resolved.requests / resolved.windowSeconds;
+    return {
+        allowed,
+        limit: resolved.requests,
+        windowSeconds: resolved.windowSeconds,
+        remaining: Math.floor(state.tokens),
+        resetSeconds: Math.max(0, Math.ceil((state.fullAt - now) / 1000)),
+        retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((1 - state.tokens) / ratePerSecond))
+    };
+}
+
+/**
+ * Drop refilled buckets from the configured store. Returns the number dropped, or null when
+ * the store doesn't support sweeping.
+ */
+export async function sweepRateLimitStore(context?: InvocationContext): Promise<number | null> {
+    const current = getRateLimitStore(context);
+    return current.sweep ? current.sweep(Date.now()) : null;
+}
+
+/**
+ * RateLimit-* headers (IETF draft-ietf-httpapi-ratelimit-headers) for a result
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+    return {
+        "RateLimit-Policy": `${result.limit};w=${result.windowSeconds}`,
+        "RateLimit-Limit": result.limit.toString(),
+        "RateLimit-Remaining": result.remaining.toString(),
+        "RateLimit-Reset": result.resetSeconds.toString()
+    };
+}
+
+/**
+ * Apply a rate limit budget to a function handler. Requests over budget get 429 with
+ * Retry-After; every limited response carries RateLimit-* headers. Preflight requests are
+ * not charged.
+ */
+export function withRateLimit(
+    handler: (request: HttpRequest, context: InvocationContext) => Promise<HttpResponseInit>,
+    budget: RateLimitBudget
+): (request: HttpRequest, context: InvocationContext) => Promise<HttpResponseInit> {
+    return async (request, context) => {
+        if (request.method === "OPTIONS") {
+            return handler(request, context);
+        }
+
+        const result = await consumeRateLimit(request, budget, context);
+        if (!result) {
+            return handler(request, context);
+        }
+
+        const limitHeaders = rateLimitHeaders(result);
+        if (!result.allowed) {
+            context.warn(`Rate limit exceeded for ${budget.name}`);
+            return {
+                status: 429,
+                headers: {
+                    ...limitHeaders,
+                    "Content-Type": "application/json",
+                    "Retry-After": result.retryAfterSeconds.toString()
+                },
+                jsonBody: { error: "Too many requests", retryAfter: result.retryAfterSeconds }
+            };
+        }
+
+        // Handlers return plain header records
+        const response = await handler(request, context);
+        return { ...response, headers: { ...(response.headers as Record<string, string>), ...limitHeaders } };
+    };
+}
@@ -0,0 +1,238 @@
+import { HttpResponseInit } from "@azure/functions";
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+import * as dns from "dns";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+
+const ALLOWED_PROTOCOLS = ["http:", "https:"];
+const DEFAULT_MAX_REDIRECTS = 5;
+
+/**
+ * Address ranges that outbound requests must never reach: loopback, private networks,
+ * link-local (including cloud metadata at 169.254.169.254), CGNAT, multicast, IPv6 ULA and
+ * local-use NAT64. IPv4-mapped addresses are matched against the IPv4 ranges by BlockList;
+ * IPv4-compatible, NAT64 and 6to4 addresses are checked through embeddedIPv4.
+ */
+const blockedAddresses = new net.BlockList();
+blockedAddresses.addSubnet("0.0.0.0", 8, "ipv4");
+blockedAddresses.addSubnet("10.0.0.0", 8, "ipv4");
+blockedAddresses.addSubnet("100.64.0.0", 10, "ipv4");
+blockedAddresses.addSubnet("127.0.0.0", 8, "ipv4");
+blockedAddresses.addSubnet("169.254.0.0", 16, "ipv4");
+blockedAddresses.addSubnet("172.16.0.0", 12, "ipv4");
+blockedAddresses.addSubnet("192.0.0.0", 24, "ipv4");
+blockedAddresses.addSubnet("192.168.0.0", 16, "ipv4");
+blockedAddresses.addSubnet("198.18.0.0", 15, "ipv4");
+blockedAddresses.addSubnet("224.0.0.0", 4, "ipv4");
+blockedAddresses.addSubnet("240.0.0.0", 4, "ipv4");
+blockedAddresses.addAddress("::", "ipv6");
+blockedAddresses.addAddress("::1", "ipv6");
+blockedAddresses.addSubnet("64:ff9b:1::", 48, "ipv6");
+blockedAddresses.addSubnet("fc00::", 7, "ipv6");
+blockedAddresses.addSubnet("fe80::", 10, "ipv6");
+blockedAddresses.addSubnet("ff00::", 8, "ipv6");
+
+/**
+ * Thrown when a target URL (or one of its redirect hops) is rejected by the outbound policy.
+ */
+export class UrlPolicyError extends Error {
+    constructor(message: string, public readonly url: string) {
+        super(message);
+        this.name = "UrlPolicyError";
+    }
+}
+
+export interface ResolvedTarget {
+    url: URL;
+    address: string;
+    family: number;
+}
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups
+ */
+function ipv6Groups(address: string): number[] {
+    let text = address.toLowerCase().replace(/%.*$/, "");
+    // A trailing dotted quad (::ffff:1.2.3.4) stands for the last two groups
+    const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+    if (dotted) {
+        const [a, b, c, d] = dotted.slice(1).map(part => parseInt(part));
+        text = `${text.substring(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+    }
+
+    const [head, tail] = text.split("::");
+    const parse = (part: string | undefined) => part ? part.split(":").map(group => parseInt(group, 16)) : [];
+    const headGroups = parse(head);
+    const tailGroups = parse(tail);
+    const zeros = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill(0);
+    return [...headGroups, ...zeros, ...tailGroups];
+}
+
+/**
+ * The IPv4 address carried by a deprecated IPv4-compatible (::/96), NAT64 (64:ff9b::/96) or
+ * 6to4 (2002::/16) address, which stacks and gateways translate to, or null for other IPv6
+ * addresses
+ */
+function embeddedIPv4(address: string): string | null {
+    const groups = ipv6Groups(address);
+    let high: number;
+    let low: number;
+    if (groups.slice(0, 6).every(group => group === 0)) {
+        [high, low] = [groups[6], groups[7]];
+    } else if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+        [high, low] = [groups[6], groups[7]];
+    } else if (groups[0] === 0x2002) {
+        [high, low] = [groups[1], groups[2]];
+    } else {
+        return null;
+    }
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+/**
+ * Check whether an IP address falls in a range outbound requests may not reach
+ */
+export function isBlockedAddress(address: string): boolean {
+    const family = net.isIP(address);
+    if (family === 0) {
+        return true;
+    }
+    if (family === 6) {
+        const embedded = embeddedIPv4(address);
+        if (embedded && blockedAddresses.check(embedded, "ipv4")) {
+            return true;
+        }
+    }
+    return blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Validate a URL against the outbound policy and resolve the address to connect to.
+ * Every address the host resolves to must be public, otherwise the URL is rejected.
+ */
+export async function resolveAllowedUrl(target: string | URL): Promise<ResolvedTarget> {
+    const raw = target.toString();
+
+    let url: URL;
+    try {
+        url = typeof target === "string" ? new URL(target) : target;
+    } catch {
+        throw new UrlPolicyError("Invalid URL format", raw);
+    }
+
+    if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+        throw new UrlPolicyError(`Protocol ${url.protocol} is not allowed`, raw);
+    }
+
+    if (url.username || url.password) {
+        throw new UrlPolicyError("Credentials in URL are not allowed", raw);
+    }
+
+    // URL.hostname keeps the brackets around IPv6 literals
+    const hostname = url.hostname.replace(/^\[|\]$/g, "");
+
+    let addresses: dns.LookupAddress[];
+    try {
+        addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+    } catch (err) {
+        // Let resolution failures surface the same way axios reports them
+        throw Object.assign(new Error(`getaddrinfo ${err.code || "ENOTFOUND"} ${hostname}`), { code: err.code || "ENOTFOUND" });
+    }
+
+    if (addresses.length === 0 || addresses.some(entry => isBlockedAddress(entry.address))) {
+        throw new UrlPolicyError("Target host resolves to a private or reserved address", raw);
+    }
+
+    return { url, address: addresses[0].address, family: addresses[0].family };
+}
+
+/**
+ * Build a lookup function that always answers with the already validated address,
+ * so the connection cannot be re-resolved to a different (private) host.
+ */
+function pinnedLookup(target: ResolvedTarget): net.LookupFunction {
+    return ((_hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+        if (options?.all) {
+            callback(null, [{ address: target.address, family: target.family }]);
+        } else {
+            callback(null, target.address, target.family);
+        }
+    }) as net.LookupFunction;
+}
+
+/**
+ * GET a URL under the outbound policy. Redirects are followed manually so that every hop is
+ * validated, and each connection is pinned to the address that passed validation.
+ */
+export async function safeGet<T = any>(target: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    const maxRedirects = config.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+    const validateStatus = config.validateStatus === undefined
+        ? (status: number) => status >= 200 && status < 300
+        : config.validateStatus;
+
+    let currentUrl = target;
+
+    for (let hop = 0; ; hop++) {
+        const resolved = await resolveAllowedUrl(currentUrl);
+        const lookup = pinnedLookup(resolved);
+
+        const response = await axios.get<T>(resolved.url.toString(), {
+            ...config,
+            maxRedirects: 0,
+            proxy: false,
+            httpAgent: new http.Agent({ lookup }),
+            httpsAgent: new https.Agent({ lookup }),
+            validateStatus: () => true
+        });
+
+        const location = response.headers["location"];
+        if (response.status >= 300 && response.status < 400 && location) {
+            if (hop >= maxRedirects) {
+                throw new AxiosError("Maximum number of redirects exceeded", AxiosError.ERR_FR_TOO_MANY_REDIRECTS, response.config, response.request, response);
+            }
+
+            // Drop the redirect body so streamed responses don't hold the socket open
+            const body = response.data as any;
+            if (body && typeof body.destroy === "function") {
+                body.destroy();
+            }
+
+            currentUrl = new URL(location, resolved.url).toString();
+            continue;
+        }
+
+        if (validateStatus && !validateStatus(response.status)) {
+            const body = response.data as any;
+            if (body && typeof body.destroy === "function") {
+                body.destroy();
+            }
+            throw new AxiosError(
+                `Request failed with status code ${response.status}`,
+                response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+                response.config,
+                response.request,
+                response
+            );
+        }
+
+        return response;
+    }
+}
+
+/**
+ * Standard 403 response for targets blocked by the outbound policy
+ */
+export function blockedUrlResponse(err: UrlPolicyError): HttpResponseInit {
+    return {
+        status: 403,
+        headers: {
+            "Content-Type": "application/json"
+        },
+        jsonBody: {
+            error: "URL not allowed",
+            reason: err.message,
+            url: err.url
+        }
+    };
+}
@@ -0,0 +1,115 @@
+import { HttpRequest, HttpResponseInit } from "@azure/functions";
+import * as crypto from "crypto";
+
+const SIGNATURE_PARAM = "sig";
+const KEY_ID_PARAM = "kid";
+const EXPIRES_PARAM = "exp";
+
+export interface SigningKey {
+    id: string;
+    secret: string;
+}
+
+/**
+ * Active signing keys from IMAGE_SIGNING_KEYS, formatted as "id:secret,id2:secret2".
+ * The first key signs new URLs; all of them are accepted, which allows key rotation.
+ */
+export function getSigningKeys(): SigningKey[] {
+    return (process.env.IMAGE_SIGNING_KEYS || "")
+        .split(",")
+        .map(entry => entry.trim())
+        .filter(entry => entry.includes(":"))
+        .map(entry => {
+            const separator = entry.indexOf(":");
+            return { id: entry.substring(0, separator), secret: entry.substring(separator + 1) };
+        })
+        .filter(key => key.id && key.secret);
+}
+
+/**
+ * Whether unsigned requests must be rejected (IMAGE_SIGNING_REQUIRED=true)
+ */
+export function isSigningRequired(): boolean {
+    return process.env.IMAGE_SIGNING_REQUIRED === "true";
+}
+
+/**
+ * Canonical form of a parameter set: every parameter except the signature, sorted by name
+ * and then value, URI-encoded and joined with '&'
+ */
+export function canonicalizeParams(params: Iterable<[string, string]>): string {
+    return [...params]
+        .filter(([name]) => name !== SIGNATURE_PARAM)
+        .sort(([nameA, valueA], [nameB, valueB]) => nameA === nameB ? (valueA < valueB ? -1 : valueA > valueB ? 1 : 0) : (nameA < nameB ? -1 : 1))
+        .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+        .join("&");
+}
+
+function computeSignature(canonical: string, secret: string): string {
+    return crypto.createHmac("sha256", secret).update(canonical).digest("base64url");
+}
+
+/**
+ * Sign a parameter set with the primary key. Returns the parameters with kid and sig added,
+ * or the parameters unchanged when no signing key is configured.
+ */
+export function signParams(params: Record<string, string>, expiresAt?: number): Record<string, string> {
+    const [key] = getSigningKeys();
+    if (!key) {
+        return params;
+    }
+
+    const signed: Record<string, string> = { ...params, [KEY_ID_PARAM]: key.id };
+    if (expiresAt !== undefined) {
+        signed[EXPIRES_PARAM] = Math.floor(expiresAt).toString();
+    }
+    signed[SIGNATURE_PARAM] = computeSignature(canonicalizeParams(Object.entries(signed)), key.secret);
+    return signed;
+}
+
+/**
+ * Verify the request signature. Returns null when the request may proceed, or the reason
+ * it must be rejected. Unsigned requests are only rejected when signing is required.
+ */
+export function verifySignature(request: HttpRequest): string | null {
+    const signature = request.query.get(SIGNATURE_PARAM);
+    if (!signature) {
+        return isSigningRequired() ? "Missing signature" : null;
+    }
+
+    const expires = request.query.get(EXPIRES_PARAM);
+    if (expires !== null && !(parseInt(expires) * 1000 > Date.now())) {
+        return "Signature expired";
+    }
+
+    const keyId = request.query.get(KEY_ID_PARAM);
+    const keys = getSigningKeys().filter(key => keyId === null || key.id === keyId);
+    if (keys.length === 0) {
+        return "Unknown signing key";
+    }
+
+    const canonical = canonicalizeParams(request.query.entries());
+    const provided = Buffer.from(signature);
+    const valid = keys.some(key => {
+        const expected = Buffer.from(computeSignature(canonical, key.secret));
+        return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+    });
+
+    return valid ? null : "Invalid signature";
+}
+
+/**
+ * Standard 403 response for requests with a missing, invalid or expired signature
+ */
+export function signatureErrorResponse(reason: string): HttpResponseInit {
+    return {
+        status: 403,
+        headers: {
+            "Content-Type": "application/json"
+        },
+        jsonBody: {
+            error: "Signature verification failed",
+            reason
+        }
+    };
+}
@@ -0,0 +1,265 @@
+import { decodeEntities } from "./htmlHead";
+
+/**
+ * An XML element with its name resolved against the namespaces in scope. `name` keeps the
+ * qualified name as written; `namespace` is the URI of its prefix (or of the default namespace).
+ */
+export interface XmlElement {
+    name: string;
+    local: string;
+    namespace: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+    /** Source markup between the start and end tag, for elements that carry inline XHTML */
+    inner: string;
+}
+
+/**
+ * Thrown when a document has no element tree to speak of
+ */
+export class XmlParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "XmlParseError";
+    }
+}
+
+const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace";
+
+// Bounds on the work a document can cause; feeds stay far below them
+const MAX_ELEMENTS = 500000;
+const MAX_DEPTH = 256;
+
+const QUOTE = 0x22;
+const APOSTROPHE = 0x27;
+const GREATER_THAN = 0x3e;
+
+function isWhitespace(code: number): boolean {
+    return code === 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/**
+ * Parse the attributes of a start tag (the part after the element name). Attributes without
+ * a quoted value are skipped.
+ */
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    let position = 0;
+    while (position < source.length) {
+        while (position < source.length && (isWhitespace(source.charCodeAt(position)) || source[position] === "/")) {
+            position++;
+        }
+        const nameStart = position;
+        while (position < source.length && !isWhitespace(source.charCodeAt(position)) && source[position] !== "=" && source[position] !== "/") {
+            position++;
+        }
+        const name = source.substring(nameStart, position);
+        while (position < source.length && isWhitespace(source.charCodeAt(position))) {
+            position++;
+        }
+        if (source[position] !== "=") {
+            continue;
+        }
+        position++;
+        while (position < source.length && isWhitespace(source.charCodeAt(position))) {
+            position++;
+        }
+
+        const quote = source[position];
+        if (quote !== "\"" && quote !== "'") {
+            continue;
+        }
+        const end = source.indexOf(quote, position + 1);
+        if (end === -1) {
+            break;
+        }
+        if (name) {
+            attributes[name] = decodeEntities(source.substring(position + 1, end));
+        }
+        position = end + 1;
+    }
+    return attributes;
+}
+
+/**
+ * Index of the '>' that ends a start tag, skipping over quoted attribute values, or -1 when
+ * the tag is never closed
+ */
+function findTagEnd(xml: string, from: number): number {
+    let position = from;
+    while (position < xml.length) {
+        const code = xml.charCodeAt(position);
+        if (code === GREATER_THAN) {
+            return position;
+        }
+        if (code === QUOTE || code === APOSTROPHE) {
+            const close = xml.indexOf(xml[position], position + 1);
+            if (close === -1) {
+                return -1;
+            }
+            position = close + 1;
+        } else {
+            position++;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Index just past a doctype or other declaration starting at `from`, including an internal
+ * subset in brackets, or -1 when it is never closed
+ */
+function findDeclarationEnd(xml: string, from: number): number {
+    const end = xml.indexOf(">", from);
+    const subset = xml.indexOf("[", from);
+    if (subset === -1 || end === -1 || end < subset) {
+        return end === -1 ? -1 : end + 1;
+    }
+    const subsetEnd = xml.indexOf("]", subset);
+    const close = subsetEnd === -1 ? -1 : xml.indexOf(">", subsetEnd);
+    return close === -1 ? -1 : close + 1;
+}
+
+function resolveName(name: string, scope: Record<string, string>): { local: string; namespace: string } {
+    const separator = name.indexOf(":");
+    if (separator === -1) {
+        return { local: name, namespace: scope[""] || "" };
+    }
+    const prefix = name.substring(0, separator);
+    return {
+        local: name.substring(separator + 1),
+        namespace: prefix === "xml" ? XML_NAMESPACE : scope[prefix] || prefix
+    };
+}
+
+/**
+ * Parse an XML document into an element tree. Doctypes are skipped without expanding any
+ * entities they declare, so external entities are never resolved. Text of an element is the
+ * concatenation of its own text and CDATA sections; the parser tolerates HTML entities and
+ * unclosed elements at the end of the document, which are common in feeds found in the wild.
+ *
+ * The scanner only moves forward, so its work is linear in the input; markup left open at the
+ * end of the document ends the parse. Documents with more than MAX_ELEMENTS elements or
+ * nested deeper than MAX_DEPTH are rejected.
+ */
+export function parseXml(xml: string): XmlElement {
+    const root: XmlElement = { name: "#document", local: "#document", namespace: "", attributes: {}, children: [], text: "", inner: xml };
+    const stack: { element: XmlElement; scope: Record<string, string>; start: number }[] = [{ element: root, scope: Object.create(null), start: 0 }];
+    const elementName = /[^\s\/>!?]+/y;
+    let elements = 0;
+
+    let position = 0;
+    while (position < xml.length) {
+        const current = stack[stack.length - 1];
+        const open = xml.indexOf("<", position);
+        if (open !== position) {
+            current.element.text += decodeEntities(xml.substring(position, open === -1 ? xml.length : open));
+            if (open === -1) {
+                break;
+            }
+        }
+
+        if (xml.startsWith("<![CDATA[", open)) {
+            const end = xml.indexOf("]]>", open + 9);
+            if (end === -1) {
+                break;
+            }
+            current.element.text += xml.substring(open + 9, end);
+            position = end + 3;
+        } else if (xml.startsWith("<!--", open) || xml.startsWith("<?", open)) {
+            const terminator = xml[open + 1] === "?" ? "?>" : "-->";
+            const end = xml.indexOf(terminator, open + 2);
+            if (end === -1) {
+                break;
+            }
+            position = end + terminator.length;
+        } else if (xml.startsWith("<!", open)) {
+            // Doctypes are skipped, internal subset and all
+            position = findDeclarationEnd(xml, open + 2);
+            if (position === -1) {
+                break;
+            }
+        } else if (xml.startsWith("</", open)) {
+            const end = xml.indexOf(">", open + 2);
+            if (end === -1) {
+                break;
+            }
+            // Pop up to the matching element; stray closing tags are ignored
+            const closeName = xml.substring(open + 2, end).trim();
+            for (let index = stack.length - 1; index > 0; index--) {
+                if (stack[index].element.name === closeName) {
+                    stack[index].element.inner = xml.substring(stack[index].start, open);
+                    stack.length = index;
+                    break;
+                }
+            }
+            position = end + 1;
+        } else {
+            elementName.lastIndex = open + 1;
+            const name = elementName.exec(xml);
+            if (!name) {
+                // A lone '<' is kept as text
+                current.element.text += "<";
+                position = open + 1;
+                continue;
+            }
+
+            const end = findTagEnd(xml, elementName.lastIndex);
+            if (end === -1) {
+                break;
+            }
+            const selfClosing = xml[end - 1] === "/" && end - 1 >= elementName.lastIndex;
+            const attributes = parseAttributes(xml.substring(elementName.lastIndex, selfClosing ? end - 1 : end));
+            position = end + 1;
+
+            if (++elements > MAX_ELEMENTS) {
+                throw new XmlParseError(`Document has more than ${MAX_ELEMENTS} elements`);
+            }
+
+            // Scopes inherit through the prototype chain, so only declarations are copied
+            let scope = current.scope;
+            for (const [attribute, value] of Object.entries(attributes)) {
+                if (attribute === "xmlns" || attribute.startsWith("xmlns:")) {
+                    scope = scope === current.scope ? Object.create(current.scope) : scope;
+                    scope[attribute === "xmlns" ? "" : attribute.substring(6)] = value;
+                }
+            }
+
+            const element: XmlElement = { name: name[0], ...resolveName(name[0], scope), attributes, children: [], text: "", inner: "" };
+            current.element.children.push(element);
+            if (!selfClosing) {
+                if (stack.length > MAX_DEPTH) {
+                    throw new XmlParseError(`Document is nested deeper than ${MAX_DEPTH} elements`);
+                }
+                stack.push({ element, scope, start: position });
+            }
+        }
+    }
+
+    if (root.children.length === 0) {
+        throw new XmlParseError("Document has no root element");
+    }
+    return root.children[0];
+}
+
+/**
+ * Children of an element with the given local name, optionally restricted to namespaces
+ */
+export function childElements(element: XmlElement, local: string, namespaces?: string[]): XmlElement[] {
+    return element.children.filter(child => child.local === local && (!namespaces || namespaces.includes(child.namespace)));
+}
+
+/**
+ * First child of an element with the given local name, optionally restricted to namespaces
+ */
+export function childElement(element: XmlElement, local: string, namespaces?: string[]): XmlElement | undefined {
+    return element.children.find(child => child.local === local && (!namespaces || namespaces.includes(child.namespace)));
+}
+
+/**
+ * Trimmed text of the first matching child, or undefined when it is missing or empty
+ */
+export function childText(element: XmlElement, local: string, namespaces?: string[]): string | undefined {
+    return childElement(element, local, namespaces)?.text.trim() || undefined;
+}